@@ -0,0 +1,223 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { findGradleRoot } from "./gradleRoots";
+
+export interface AndroidModule {
+  /** Gradle project path, e.g. ":feature:home". */
+  gradlePath: string;
+  dir: string;
+  /** Root of the Gradle build the module belongs to. */
+  rootDir: string;
+  /** Variants from build types × product flavors, or undefined if the build file couldn't be parsed. */
+  variants: string[] | undefined;
+}
+
+interface NamedEntry {
+  name: string;
+  body: string;
+}
+
+const ANDROID_PLUGIN_PATTERN =
+  /com\.android\.(application|library|dynamic-feature|test)|[.-]android[.-](application|library|feature|test)\b|^\s*android\s*\{/m;
+const DEFAULT_BUILD_TYPES = ["debug", "release"];
+
+/**
+ * Find Android modules under `root` by scanning Gradle build files and
+ * parsing their `buildTypes` / `productFlavors` blocks. Convention plugins
+ * that hide the `android {}` block leave `variants` undefined.
+ */
+export async function findAndroidModules(root: string): Promise<AndroidModule[]> {
+  const modules: AndroidModule[] = [];
+  for (const buildFile of await readBuildFiles(root)) {
+    if (!isAndroidBuildFile(buildFile.text)) continue;
+    modules.push({
+      gradlePath: buildFile.gradlePath,
+      dir: buildFile.dir,
+      rootDir: buildFile.rootDir,
+      variants: parseVariants(buildFile.text),
+    });
+  }
+  return modules.sort((a, b) => a.gradlePath.localeCompare(b.gradlePath));
+}
+
+export interface BuildFile {
+  gradlePath: string;
+  dir: string;
+  /** Root of the Gradle build (nearest directory with a wrapper), or the scanned root. */
+  rootDir: string;
+  text: string;
+}
+
+/**
+ * Read every `build.gradle(.kts)` under `root`, skipping build outputs and
+ * included builds. `root` may contain several Gradle builds.
+ */
+export async function readBuildFiles(root: string): Promise<BuildFile[]> {
+  const uris = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(root, "**/build.gradle{,.kts}"),
+    "**/{build,node_modules,.gradle,buildSrc,build-logic}/**"
+  );
+
+  const buildFiles: BuildFile[] = [];
+  for (const uri of uris) {
+    let text: string;
+    try {
+      text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf-8");
+    } catch {
+      continue;
+    }
+    const dir = path.dirname(uri.fsPath);
+    const rootDir = findGradleRoot(dir) ?? root;
+    const rel = path.relative(rootDir, dir);
+    buildFiles.push({
+      gradlePath: rel ? ":" + rel.split(path.sep).join(":") : ":",
+      dir,
+      rootDir,
+      text,
+    });
+  }
+  return buildFiles;
+}
+
+export function isAndroidBuildFile(text: string): boolean {
+  return ANDROID_PLUGIN_PATTERN.test(withoutUnappliedPlugins(text));
+}
+
+/**
+ * Drop `... apply false` plugin declarations, which root build files use to
+ * put plugins on the classpath without applying them.
+ */
+export function withoutUnappliedPlugins(text: string): string {
+  return text.replace(/^.*\bapply\s*\(?\s*false\b.*$/gm, "");
+}
+
+/**
+ * Key of a module in `kotlinReview.android.moduleVariants`: its Gradle path
+ * (`:feature:home`), prefixed with the directory of its Gradle build relative
+ * to `base` when the build isn't `base` itself (`mobile:app`). The server
+ * resolves keys against its workspace root the same way.
+ */
+export function moduleVariantKey(module: Pick<AndroidModule, "rootDir" | "gradlePath">, base: string): string {
+  const rel = path.relative(base, module.rootDir);
+  return rel ? rel.split(path.sep).join("/") + module.gradlePath : module.gradlePath;
+}
+
+/** The module whose directory most closely contains `filePath`. */
+export function moduleForFile(modules: AndroidModule[], filePath: string): AndroidModule | undefined {
+  let best: AndroidModule | undefined;
+  for (const module of modules) {
+    if (filePath === module.dir || filePath.startsWith(module.dir + path.sep)) {
+      if (!best || module.dir.length > best.dir.length) best = module;
+    }
+  }
+  return best;
+}
+
+export function parseVariants(buildFileText: string): string[] | undefined {
+  const android = findBlock(buildFileText, "android");
+  if (android === undefined) return undefined;
+
+  const buildTypes = [...DEFAULT_BUILD_TYPES];
+  const buildTypesBlock = findBlock(android, "buildTypes");
+  if (buildTypesBlock !== undefined) {
+    for (const { name } of namedEntries(buildTypesBlock)) {
+      if (!buildTypes.includes(name)) buildTypes.push(name);
+    }
+  }
+
+  const flavorsBlock = findBlock(android, "productFlavors");
+  const flavors = flavorsBlock !== undefined ? namedEntries(flavorsBlock) : [];
+  if (flavors.length === 0) return buildTypes;
+
+  // Group flavors by dimension, in declared dimension order
+  const dimensions = parseFlavorDimensions(android);
+  const byDimension = new Map<string, string[]>();
+  for (const { name, body } of flavors) {
+    const dimension = body.match(/dimension\s*(?:=|\()?\s*["']([^"']+)["']/)?.[1] ?? dimensions[0] ?? "";
+    if (!byDimension.has(dimension)) byDimension.set(dimension, []);
+    byDimension.get(dimension)!.push(name);
+  }
+  const orderedDimensions = [
+    ...dimensions.filter((d) => byDimension.has(d)),
+    ...[...byDimension.keys()].filter((d) => !dimensions.includes(d)),
+  ];
+
+  let combinations: string[][] = [[]];
+  for (const dimension of orderedDimensions) {
+    const next: string[][] = [];
+    for (const combination of combinations) {
+      for (const flavor of byDimension.get(dimension)!) next.push([...combination, flavor]);
+    }
+    combinations = next;
+  }
+
+  const variants: string[] = [];
+  for (const combination of combinations) {
+    for (const buildType of buildTypes) {
+      variants.push(variantName([...combination, buildType]));
+    }
+  }
+  return variants;
+}
+
+function variantName(parts: string[]): string {
+  return parts
+    .map((part, i) => (i === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1)))
+    .join("");
+}
+
+function parseFlavorDimensions(androidBlock: string): string[] {
+  // flavorDimensions "a", "b" | flavorDimensions("a", "b") | flavorDimensions += listOf("a", "b") | flavorDimensions.add("a")
+  const dimensions: string[] = [];
+  const pattern = /flavorDimensions\s*(?:\+=|=|\.add(?:All)?)?\s*(?:\(|listOf\(|mutableListOf\(|\[)?([^\n)\]]*)/g;
+  for (const match of androidBlock.matchAll(pattern)) {
+    for (const quoted of match[1].matchAll(/["']([^"']+)["']/g)) {
+      if (!dimensions.includes(quoted[1])) dimensions.push(quoted[1]);
+    }
+  }
+  return dimensions;
+}
+
+/** Body of the first `name { ... }` block in `text`, without the braces. */
+function findBlock(text: string, name: string): string | undefined {
+  const match = new RegExp(`(^|[^\\w.])${name}\\s*\\{`, "m").exec(text);
+  if (!match) return undefined;
+  const open = match.index + match[0].length - 1;
+  const close = matchingBrace(text, open);
+  return close === -1 ? undefined : text.slice(open + 1, close);
+}
+
+/**
+ * Top-level `entry { ... }` declarations in a container block. Handles the
+ * Groovy (`staging { }`) and Kotlin DSL (`create("staging") { }`,
+ * `getByName("release") { }`) forms.
+ */
+function namedEntries(block: string): NamedEntry[] {
+  const entries: NamedEntry[] = [];
+  const header = /(?:(?:create|getByName|maybeCreate|register|named)\s*\(\s*["']([\w-]+)["']\s*\)|\b([A-Za-z_]\w*))\s*\{/g;
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(block)) !== null) {
+    const open = match.index + match[0].length - 1;
+    const close = matchingBrace(block, open);
+    if (close === -1) break;
+    const name = match[1] ?? match[2];
+    if (name && !["all", "configureEach", "each", "forEach", "apply", "with"].includes(name)) {
+      entries.push({ name, body: block.slice(open + 1, close) });
+    }
+    header.lastIndex = close + 1; // skip nested blocks
+  }
+  return entries;
+}
+
+function matchingBrace(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "{") depth++;
+    else if (ch === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,134 @@
+import * as vscode from "vscode";
+import { LanguageClient } from "vscode-languageclient/node";
+import { SOURCE_SET_INFO_REQUEST, SourceSetInfoParams, SourceSetInfoResult } from "./protocol";
+import { getCodeLensEnabled } from "./config";
+
+/** Declarations that get a reference count. */
+const REFERENCE_KINDS = new Set([
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Enum,
+  vscode.SymbolKind.Object,
+  vscode.SymbolKind.Struct,
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+]);
+
+class ReferencesLens extends vscode.CodeLens {
+  constructor(readonly uri: vscode.Uri, readonly declaration: vscode.Range) {
+    super(declaration);
+  }
+}
+
+class ActualsLens extends vscode.CodeLens {
+  constructor(readonly uri: vscode.Uri, readonly declaration: vscode.Range) {
+    super(declaration);
+  }
+}
+
+/**
+ * "N references" above classes and functions, and "actual in: jvm, ios" above
+ * `expect` declarations. Lenses are placed from the document symbols and only
+ * resolved (with the server's references and implementation requests) once
+ * they scroll into view.
+ */
+export class KotlinCodeLensProvider implements vscode.CodeLensProvider {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor(private readonly getClient: () => LanguageClient | undefined) {}
+
+  /** Recompute all lenses, e.g. after the server rebuilt its analysis. */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    if (!getCodeLensEnabled() || !this.getClient()?.isRunning()) return [];
+    const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[] | undefined>(
+      "vscode.executeDocumentSymbolProvider", document.uri
+    );
+    const lenses: vscode.CodeLens[] = [];
+    const visit = (symbol: vscode.DocumentSymbol) => {
+      if (REFERENCE_KINDS.has(symbol.kind)) {
+        lenses.push(new ReferencesLens(document.uri, symbol.selectionRange));
+      }
+      if (isExpect(document, symbol)) {
+        lenses.push(new ActualsLens(document.uri, symbol.selectionRange));
+      }
+      symbol.children.forEach(visit);
+    };
+    (symbols ?? []).forEach(visit);
+    return lenses;
+  }
+
+  async resolveCodeLens(lens: vscode.CodeLens): Promise<vscode.CodeLens> {
+    if (lens instanceof ReferencesLens) {
+      const locations = await vscode.commands.executeCommand<vscode.Location[] | undefined>(
+        "vscode.executeReferenceProvider", lens.uri, lens.declaration.start
+      );
+      // The declaration itself isn't a reference
+      const references = (locations ?? []).filter((l) =>
+        l.uri.toString() !== lens.uri.toString() || !l.range.intersection(lens.declaration)
+      );
+      lens.command = peekCommand(
+        references.length === 1 ? "1 reference" : `${references.length} references`, lens, references
+      );
+    } else if (lens instanceof ActualsLens) {
+      const results = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[] | undefined>(
+        "vscode.executeImplementationProvider", lens.uri, lens.declaration.start
+      );
+      const actuals = (results ?? []).map((r) => ("uri" in r ? r : new vscode.Location(r.targetUri, r.targetSelectionRange ?? r.targetRange)));
+      const platforms = [...new Set(await Promise.all(actuals.map((l) => this.platformOf(l.uri))))];
+      lens.command = peekCommand(
+        platforms.length > 0 ? `actual in: ${platforms.join(", ")}` : "no actual declarations", lens, actuals
+      );
+    }
+    return lens;
+  }
+
+  /** Short platform name of an `actual` declaration's file: its source set without "Main"/"Test". */
+  private async platformOf(uri: vscode.Uri): Promise<string> {
+    let sourceSet = sourceSetFromPath(uri);
+    const client = this.getClient();
+    if (client?.isRunning()) {
+      try {
+        const params: SourceSetInfoParams = { uri: client.code2ProtocolConverter.asUri(uri) };
+        const info = await client.sendRequest<SourceSetInfoResult | null>(SOURCE_SET_INFO_REQUEST, params);
+        if (info) sourceSet = info.sourceSet;
+      } catch {
+        // Fall back to the directory name
+      }
+    }
+    return sourceSet.replace(/(Main|Test)$/, "") || sourceSet;
+  }
+}
+
+/**
+ * True if the declaration's modifiers (before its name) include `expect`. The
+ * declaration's range starts at its KDoc, so comments are dropped first.
+ */
+function isExpect(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): boolean {
+  const modifiers = document.getText(new vscode.Range(symbol.range.start, symbol.selectionRange.start))
+    .replace(/\/\*[\s\S]*?\*\//g, " ")
+    .replace(/\/\/.*$/gm, "")
+    .replace(/@\w+(\([^)]*\))?/g, " ");
+  return /(^|\s)expect\s/.test(modifiers);
+}
+
+/** `src/<sourceSet>/kotlin/...` -> sourceSet, or the parent directory name. */
+function sourceSetFromPath(uri: vscode.Uri): string {
+  const segments = uri.path.split("/");
+  const src = segments.lastIndexOf("src");
+  return src >= 0 && src + 1 < segments.length - 1 ? segments[src + 1] : segments[segments.length - 2] ?? "";
+}
+
+function peekCommand(title: string, lens: ReferencesLens | ActualsLens, locations: vscode.Location[]): vscode.Command {
+  if (locations.length === 0) return { title, command: "" };
+  return {
+    title,
+    command: "editor.action.showReferences",
+    arguments: [lens.uri, lens.declaration.start, locations],
+  };
+}
@@ -0,0 +1,171 @@
+import * as path from "path";
+import { BuildFile, isAndroidBuildFile, readBuildFiles, withoutUnappliedPlugins } from "./androidVariants";
+
+interface Generator {
+  /** Shown in the output channel when the generator is detected. */
+  name: string;
+  /** Matches a build file that applies the generator's plugin (by id, version catalog alias or DSL block). */
+  pattern: RegExp;
+  /** Gradle task templates for Android, Kotlin Multiplatform and plain JVM modules. */
+  android: string[];
+  multiplatform: string[];
+  jvm: string[];
+}
+
+const ANDROID_TASKS = ["generate${Variant}Resources", "generate${Variant}BuildConfig"];
+
+const GENERATORS: Generator[] = [
+  {
+    name: "KSP",
+    pattern: /com\.google\.devtools\.ksp|plugins\.ksp\b|^\s*ksp\w*\s*[("']/m,
+    android: ["ksp${Variant}Kotlin"],
+    multiplatform: ["kspCommonMainKotlinMetadata"],
+    jvm: ["kspKotlin"],
+  },
+  {
+    name: "kapt",
+    pattern: /kotlin-kapt|kotlin\.kapt|kotlin\(\s*"kapt"\s*\)|plugins\.kotlin\.kapt|^\s*kapt\w*\s*[("']/m,
+    android: ["kapt${Variant}Kotlin"],
+    multiplatform: [],
+    jvm: ["kaptKotlin"],
+  },
+  {
+    name: "SQLDelight",
+    pattern: /app\.cash\.sqldelight|com\.squareup\.sqldelight|plugins\.sqldelight|^\s*sqldelight\s*\{/m,
+    android: ["generateSqlDelightInterface"],
+    multiplatform: ["generateSqlDelightInterface"],
+    jvm: ["generateSqlDelightInterface"],
+  },
+  {
+    name: "protobuf",
+    pattern: /com\.google\.protobuf|plugins\.protobuf\b|^\s*protobuf\s*\{/m,
+    android: ["generate${Variant}Proto"],
+    multiplatform: [],
+    jvm: ["generateProto"],
+  },
+  {
+    name: "Wire",
+    pattern: /com\.squareup\.wire|plugins\.wire\b|^\s*wire\s*\{/m,
+    android: ["generate${Variant}Protos"],
+    multiplatform: ["generateCommonMainProtos"],
+    jvm: ["generateMainProtos"],
+  },
+  {
+    name: "Apollo",
+    pattern: /com\.apollographql\.apollo|plugins\.apollo\b|^\s*apollo\s*\{/m,
+    android: ["generateApolloSources"],
+    multiplatform: ["generateApolloSources"],
+    jvm: ["generateApolloSources"],
+  },
+];
+
+const MULTIPLATFORM_PATTERN = /kotlin\(\s*"multiplatform"\s*\)|org\.jetbrains\.kotlin\.multiplatform|plugins\.kotlin\.multiplatform|kotlinMultiplatform/;
+
+export interface DetectedCodegen {
+  /** Gradle task paths, qualified with each module's project path (`:app:kspDebugKotlin`). */
+  tasks: string[];
+  /** Names of the generators found in the build files (e.g. "KSP", "SQLDelight"). */
+  generators: string[];
+}
+
+/**
+ * Replace `${variant}` (as written, e.g. "stagingDebug") and `${Variant}`
+ * (capitalized, e.g. "StagingDebug") in each template. Templates that use a
+ * placeholder are expanded once per variant.
+ */
+function expandTaskTemplates(templates: string[], variants: string[]): string[] {
+  const tasks: string[] = [];
+  for (const template of templates) {
+    if (!/\$\{[vV]ariant\}/.test(template)) {
+      tasks.push(template);
+      continue;
+    }
+    for (const variant of variants) {
+      tasks.push(
+        template
+          .replace(/\$\{variant\}/g, variant)
+          .replace(/\$\{Variant\}/g, variant.charAt(0).toUpperCase() + variant.slice(1))
+      );
+    }
+  }
+  return [...new Set(tasks)];
+}
+
+/**
+ * Expand the `kotlinReview.codegen.tasks` templates for the build at `root`.
+ * An unqualified template with a variant placeholder becomes one task per
+ * Android module, qualified with the module's path and expanded with its own
+ * variant; a qualified one (`:app:generate${Variant}Proto`) uses the variant
+ * of the module it names. Templates without a placeholder are kept as written.
+ */
+export async function expandConfiguredTasks(
+  root: string,
+  templates: string[],
+  variantFor: (gradlePath: string) => string
+): Promise<string[]> {
+  const androidModules = (await readBuildFiles(root)).filter(
+    (buildFile) => path.resolve(buildFile.rootDir) === path.resolve(root) && isAndroidBuildFile(buildFile.text)
+  );
+  const tasks: string[] = [];
+  for (const template of templates) {
+    if (!/\$\{[vV]ariant\}/.test(template)) {
+      tasks.push(template);
+    } else if (template.includes(":")) {
+      // ":feature:home:task" names the project ":feature:home"; ":task" the root project
+      const projectPath = template.slice(0, template.lastIndexOf(":")).replace(/^:?/, ":");
+      tasks.push(...expandTaskTemplates([template], [variantFor(projectPath)]));
+    } else if (androidModules.length === 0) {
+      // Android applied through convention plugins: no modules to qualify with
+      tasks.push(...expandTaskTemplates([template], [variantFor(":")]));
+    } else {
+      for (const module of androidModules) {
+        const [task] = expandTaskTemplates([template], [variantFor(module.gradlePath)]);
+        tasks.push(qualifyTask(module.gradlePath, task));
+      }
+    }
+  }
+  return [...new Set(tasks)];
+}
+
+/**
+ * Work out code generation tasks from the plugins applied in each module's
+ * build file. Android modules get their own build variant from `variantFor`,
+ * and every task is qualified with its module's path so that a variant task
+ * doesn't also run in other modules that happen to have the same variant.
+ * Generators applied through convention plugins can't be seen here and need
+ * `kotlinReview.codegen.tasks`.
+ */
+export async function detectCodegenTasks(
+  root: string,
+  variantFor: (gradlePath: string) => string
+): Promise<DetectedCodegen> {
+  const tasks: string[] = [];
+  const generators = new Set<string>();
+  for (const buildFile of await readBuildFiles(root)) {
+    if (path.resolve(buildFile.rootDir) !== path.resolve(root)) continue; // nested, separate Gradle build
+    const moduleTasks = tasksForModule(buildFile, variantFor(buildFile.gradlePath), generators);
+    tasks.push(...moduleTasks.map((task) => qualifyTask(buildFile.gradlePath, task)));
+  }
+  return { tasks: [...new Set(tasks)], generators: [...generators] };
+}
+
+function tasksForModule(buildFile: BuildFile, variant: string, generators: Set<string>): string[] {
+  const text = withoutUnappliedPlugins(buildFile.text);
+  const android = isAndroidBuildFile(text);
+  const multiplatform = MULTIPLATFORM_PATTERN.test(text);
+
+  const templates = android ? [...ANDROID_TASKS] : [];
+  for (const generator of GENERATORS) {
+    if (!generator.pattern.test(text)) continue;
+    const generatorTasks = android ? generator.android : multiplatform ? generator.multiplatform : generator.jvm;
+    if (generatorTasks.length === 0) continue;
+    generators.add(generator.name);
+    templates.push(...generatorTasks);
+  }
+  return expandTaskTemplates(templates, [variant]);
+}
+
+/** `task` in the project at `gradlePath`, e.g. `:app:generateDebugResources` (`:task` for the root project). */
+function qualifyTask(gradlePath: string, task: string): string {
+  return gradlePath === ":" ? `:${task}` : `${gradlePath}:${task}`;
+}
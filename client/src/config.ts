@@ -11,14 +11,108 @@ export function getServerJvmArgs(): string[] {
   return raw ? raw.split(/\s+/).filter(Boolean) : [];
 }
 
+/** `host:port` (or just a port) of a running server to connect to instead of spawning one; undefined if unset. */
+export function getServerConnect(): { host: string; port: number } | undefined {
+  const raw = vscode.workspace.getConfiguration(SECTION).get<string>("server.connect", "").trim();
+  const match = raw.match(/^(?:(.+):)?(\d+)$/);
+  if (!match) return undefined;
+  return { host: match[1] || "127.0.0.1", port: parseInt(match[2], 10) };
+}
+
+/** Server JAR to run instead of the bundled one, e.g. a local build; empty for the bundled server. */
+export function getServerPath(): string {
+  return vscode.workspace.getConfiguration(SECTION).get<string>("server.path", "").trim();
+}
+
+/** Seconds a request may go unanswered before the hang watchdog takes a thread dump; 0 disables it. */
+export function getHangTimeout(): number {
+  return vscode.workspace.getConfiguration(SECTION).get<number>("server.hangTimeout", 30);
+}
+
+export function getServerDebugPort(): number {
+  return vscode.workspace.getConfiguration(SECTION).get<number>("server.debugPort", 5005);
+}
+
 export function getTraceServer(): string {
   return vscode.workspace.getConfiguration(SECTION).get<string>("trace.server", "off");
 }
 
-export function getBuildVariant(): string {
-  return vscode.workspace.getConfiguration(SECTION).get<string>("android.buildVariant", "debug");
+// Android settings are resource-scoped: pass a file or folder URI to read the
+// value of its workspace folder, or nothing for the workspace-wide value.
+
+export function getBuildVariant(scope?: vscode.Uri): string {
+  return vscode.workspace.getConfiguration(SECTION, scope).get<string>("android.buildVariant", "debug");
+}
+
+/** Per-module variant overrides (module key, see `moduleVariantKey`, -> variant). */
+export function getModuleVariants(scope?: vscode.Uri): Record<string, string> {
+  return vscode.workspace.getConfiguration(SECTION, scope).get<Record<string, string>>("android.moduleVariants", {});
+}
+
+export function getBuildVariantFor(moduleKey: string, scope?: vscode.Uri): string {
+  return getModuleVariants(scope)[moduleKey] || getBuildVariant(scope);
+}
+
+export function getAutoGenerate(scope?: vscode.Uri): boolean {
+  return vscode.workspace.getConfiguration(SECTION, scope).get<boolean>("android.autoGenerate", false);
+}
+
+export function getPrimaryTarget(): string {
+  return vscode.workspace.getConfiguration(SECTION).get<string>("kmp.primaryTarget", "");
+}
+
+/**
+ * Gradle tasks for code generation, with `${variant}` / `${Variant}` placeholders.
+ * Resource-scoped so each workspace folder can override it; empty means auto-detect.
+ */
+export function getCodegenTasks(scope?: vscode.Uri): string[] {
+  return vscode.workspace.getConfiguration(SECTION, scope).get<string[]>("codegen.tasks", []);
+}
+
+/** How review mode treats diagnostics outside the changed lines. */
+export function getReviewDiagnosticsFilter(): "hide" | "hint" {
+  return vscode.workspace.getConfiguration(SECTION).get<"hide" | "hint">("review.diagnostics", "hide");
+}
+
+export function getCodeLensEnabled(): boolean {
+  return vscode.workspace.getConfiguration(SECTION).get<boolean>("codeLens.enabled", true);
+}
+
+/** Globs of files kept from the server, relative to their workspace folder. */
+export function getFilesExclude(): string[] {
+  return vscode.workspace.getConfiguration(SECTION).get<string[]>("files.exclude", []);
+}
+
+/** Files larger than this (KB) are kept from the server; 0 disables the limit. */
+export function getMaxFileSizeKb(): number {
+  return vscode.workspace.getConfiguration(SECTION).get<number>("files.maxSizeKb", 1024);
+}
+
+/**
+ * The file settings as the server reads them (initialization options and
+ * configuration changes), with the workspace folders the globs are relative to.
+ */
+export function getServerFileSettings(): { exclude: string[]; maxSizeKb: number; roots: string[] } {
+  const roots = (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath);
+  return { exclude: getFilesExclude(), maxSizeKb: getMaxFileSizeKb(), roots };
+}
+
+export type FormatTool = "auto" | "ktfmt" | "ktlint";
+
+export function getFormatTool(): FormatTool {
+  return vscode.workspace.getConfiguration(SECTION).get<FormatTool>("format.tool", "auto");
+}
+
+/** ktfmt jar with dependencies; empty to look in the Gradle cache. */
+export function getKtfmtPath(): string {
+  return vscode.workspace.getConfiguration(SECTION).get<string>("format.ktfmtPath", "").trim();
+}
+
+export function getKtfmtStyle(): "meta" | "google" | "kotlinlang" {
+  return vscode.workspace.getConfiguration(SECTION).get<"meta" | "google" | "kotlinlang">("format.ktfmtStyle", "meta");
 }
 
-export function getAutoGenerate(): boolean {
-  return vscode.workspace.getConfiguration(SECTION).get<boolean>("android.autoGenerate", false);
+/** ktlint binary or `-all` jar; empty to look on the PATH and in the Gradle cache. */
+export function getKtlintPath(): string {
+  return vscode.workspace.getConfiguration(SECTION).get<string>("format.ktlintPath", "").trim();
 }
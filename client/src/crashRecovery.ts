@@ -0,0 +1,169 @@
+import * as vscode from "vscode";
+import {
+  CloseAction,
+  CloseHandlerResult,
+  ErrorAction,
+  ErrorHandler,
+  ErrorHandlerResult,
+} from "vscode-languageclient/node";
+
+const BASE_RESTART_DELAY_MS = 1000;
+const MAX_RESTART_DELAY_MS = 30_000;
+const MAX_CRASHES = 5;
+const CRASH_WINDOW_MS = 5 * 60 * 1000;
+const STDERR_TAIL_LINES = 40;
+
+/** Keeps the last lines written by the server to stderr, for crash reports. */
+export class StderrTail {
+  private lines: string[] = [];
+  private partial = "";
+
+  append(chunk: string): void {
+    const parts = (this.partial + chunk).split(/\r?\n/);
+    this.partial = parts.pop() ?? "";
+    this.lines.push(...parts.filter((line) => line.trim()));
+    if (this.lines.length > STDERR_TAIL_LINES) {
+      this.lines.splice(0, this.lines.length - STDERR_TAIL_LINES);
+    }
+  }
+
+  last(count: number): string[] {
+    const all = this.partial.trim() ? [...this.lines, this.partial] : this.lines;
+    return all.slice(-count);
+  }
+
+  clear(): void {
+    this.lines = [];
+    this.partial = "";
+  }
+}
+
+/**
+ * Restarts the server after it dies, waiting 1s, 2s, 4s, ... (capped at 30s)
+ * between attempts. On the `MAX_CRASHES`th crash within `CRASH_WINDOW_MS` it
+ * gives up and calls `onGiveUp` so the user can decide what to do. Disposing
+ * it (on deactivation) cancels a restart that is still waiting.
+ */
+export class RestartingErrorHandler implements ErrorHandler, vscode.Disposable {
+  private crashes: number[] = [];
+  private totalCrashes = 0;
+  private wakeUp: (() => void) | undefined;
+  private disposed = false;
+  private restartSuppressed = false;
+
+  constructor(
+    private readonly outputChannel: vscode.OutputChannel,
+    private readonly onGiveUp: (crashCount: number) => void
+  ) {}
+
+  get crashCount(): number {
+    return this.totalCrashes;
+  }
+
+  /** True while waiting out the backoff delay before an automatic restart. */
+  get restartPending(): boolean {
+    return this.wakeUp !== undefined;
+  }
+
+  error(_error: Error, _message: unknown, count: number | undefined): ErrorHandlerResult {
+    if (count && count <= 3) {
+      return { action: ErrorAction.Continue };
+    }
+    return { action: ErrorAction.Shutdown };
+  }
+
+  async closed(): Promise<CloseHandlerResult> {
+    const now = Date.now();
+    this.crashes = this.crashes.filter((t) => now - t < CRASH_WINDOW_MS);
+    this.crashes.push(now);
+    this.totalCrashes++;
+
+    if (this.disposed || this.takeSuppressed()) return { action: CloseAction.DoNotRestart, handled: true };
+    if (this.crashes.length >= MAX_CRASHES) {
+      this.outputChannel.appendLine(
+        `[ERROR] Server crashed ${this.crashes.length} times in ${CRASH_WINDOW_MS / 60_000} minutes. Not restarting.`
+      );
+      this.onGiveUp(this.crashes.length);
+      return { action: CloseAction.DoNotRestart, handled: true };
+    }
+
+    const delay = Math.min(BASE_RESTART_DELAY_MS * 2 ** (this.crashes.length - 1), MAX_RESTART_DELAY_MS);
+    this.outputChannel.appendLine(
+      `[WARN] Server connection closed (crash #${this.totalCrashes}). Restarting in ${delay / 1000}s...`
+    );
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, delay);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    this.wakeUp = undefined;
+    if (this.disposed || this.takeSuppressed()) return { action: CloseAction.DoNotRestart, handled: true };
+    return { action: CloseAction.Restart, handled: true };
+  }
+
+  /** Skip the remaining backoff delay of a pending automatic restart. */
+  restartNow(): void {
+    this.wakeUp?.();
+  }
+
+  /**
+   * Don't restart automatically after the current server exits, e.g. when it
+   * ran out of memory and the user is asked how to restart it instead. Also
+   * applies while the restart is still waiting out its delay.
+   */
+  suppressRestart(): void {
+    this.restartSuppressed = true;
+    this.wakeUp?.();
+  }
+
+  /** Forget recent crashes, e.g. after a manual restart. */
+  reset(): void {
+    this.crashes = [];
+    this.restartSuppressed = false;
+  }
+
+  private takeSuppressed(): boolean {
+    const suppressed = this.restartSuppressed;
+    this.restartSuppressed = false;
+    return suppressed;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.wakeUp?.();
+  }
+}
+
+/**
+ * Return `jvmArgs` with the max heap raised by 2 GB over the effective `-Xmx`
+ * (the last one wins, as in the JVM itself).
+ */
+export function withIncreasedHeap(effectiveArgs: string[], userArgs: string[]): string[] {
+  const currentMb = maxHeapMb(effectiveArgs) ?? 0;
+  const nextGb = Math.max(2, Math.ceil(currentMb / 1024) + 2);
+  return [...userArgs.filter((arg) => parseXmx(arg) === undefined), `-Xmx${nextGb}g`];
+}
+
+/** Max heap set by `jvmArgs` in MB (the last `-Xmx` wins), or undefined if none is set. */
+export function maxHeapMb(jvmArgs: string[]): number | undefined {
+  let heapMb: number | undefined;
+  for (const arg of jvmArgs) {
+    const mb = parseXmx(arg);
+    if (mb !== undefined) heapMb = mb;
+  }
+  return heapMb;
+}
+
+function parseXmx(arg: string): number | undefined {
+  const match = arg.match(/^-Xmx(\d+)([kKmMgG]?)$/);
+  if (!match) return undefined;
+  const value = parseInt(match[1], 10);
+  switch (match[2].toLowerCase()) {
+    case "g": return value * 1024;
+    case "m": return value;
+    case "k": return Math.ceil(value / 1024);
+    default: return Math.ceil(value / (1024 * 1024));
+  }
+}
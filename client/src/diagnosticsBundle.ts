@@ -0,0 +1,158 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LanguageClient } from "vscode-languageclient/node";
+import { JavaInfo } from "./javaDetector";
+import { PROJECT_MODEL_REQUEST, ProjectModelResult } from "./protocol";
+import { RotatingLogFile } from "./logFile";
+import { writeZip } from "./zipArchive";
+
+export interface BundleSources {
+  extension: vscode.Extension<unknown>;
+  client: LanguageClient | undefined;
+  javaInfo: JavaInfo;
+  logDir: string;
+  logFile: RotatingLogFile;
+}
+
+/**
+ * "Collect Diagnostics Bundle": recent logs and thread dumps, effective settings, Java, OS,
+ * extension and server versions, and the project model (as resolved by the
+ * server and as cached on disk), zipped to a local file for bug reports.
+ * Nothing is sent anywhere.
+ */
+export async function collectDiagnostics(sources: BundleSources, outputChannel: vscode.OutputChannel): Promise<void> {
+  const redactChoice = await vscode.window.showQuickPick(
+    [
+      { label: "Redact paths", description: "Replace the home directory, user name and workspace folders", redact: true },
+      { label: "Keep paths", description: "Include paths as they are", redact: false },
+    ],
+    { placeHolder: "The bundle contains logs and project paths. Redact them?" }
+  );
+  if (!redactChoice) return;
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(defaultFolder, `kotlin-review-diagnostics-${stamp}.zip`),
+    filters: { "Zip archives": ["zip"] },
+  });
+  if (!target) return;
+
+  const redact = redactChoice.redact ? pathRedactor() : (text: string) => text;
+  const entries: { name: string; data: Buffer }[] = [];
+  const add = (name: string, text: string) => entries.push({ name, data: Buffer.from(redact(text), "utf8") });
+  // JSON is redacted before serializing, where Windows paths still have single backslashes
+  const addJson = (name: string, value: unknown) =>
+    entries.push({ name, data: Buffer.from(JSON.stringify(redactValues(value, redact), null, 2), "utf8") });
+
+  sources.logFile.flush();
+  for (const file of [...RotatingLogFile.files(sources.logDir), ...threadDumps(sources.logDir)]) {
+    add(`logs/${path.basename(file)}`, fs.readFileSync(file, "utf8"));
+  }
+
+  const { client } = sources;
+  addJson("info.json", {
+    extensionVersion: sources.extension.packageJSON.version,
+    server: client?.initializeResult?.serverInfo ?? null,
+    serverState: client ? (client.isRunning() ? "running" : "stopped") : "not started",
+    vscodeVersion: vscode.version,
+    os: { platform: process.platform, release: os.release(), arch: os.arch(), totalMemory: os.totalmem() },
+    java: sources.javaInfo,
+    settings: effectiveSettings(sources.extension),
+  });
+
+  if (client?.isRunning()) {
+    try {
+      const model = await client.sendRequest<ProjectModelResult>(PROJECT_MODEL_REQUEST);
+      addJson("project-model.json", model);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      addJson("project-model.json", { error: msg });
+    }
+  }
+  const cached = await vscode.workspace.findFiles("**/.kotlin-review/project-model.json", "**/node_modules/**", 20);
+  cached.forEach((uri, i) => {
+    const folder = vscode.workspace.asRelativePath(path.dirname(path.dirname(uri.fsPath)), false);
+    const name = `cache/${i}-${folder.replace(/[\\/:]/g, "_") || "root"}.json`;
+    const text = fs.readFileSync(uri.fsPath, "utf8");
+    try {
+      addJson(name, JSON.parse(text));
+    } catch {
+      add(name, text);
+    }
+  });
+
+  writeZip(target.fsPath, entries);
+  outputChannel.appendLine(`Diagnostics bundle written to ${target.fsPath} (${entries.length} files)`);
+  const choice = await vscode.window.showInformationMessage(
+    `Kotlin Review: diagnostics bundle saved to ${path.basename(target.fsPath)}. Review it before attaching it to a bug report.`,
+    "Reveal File"
+  );
+  if (choice === "Reveal File") await vscode.commands.executeCommand("revealFileInOS", target);
+}
+
+/** The latest thread dumps saved by the hang watchdog. */
+function threadDumps(logDir: string): string[] {
+  try {
+    return fs.readdirSync(logDir)
+      .filter((name) => name.startsWith("thread-dump-"))
+      .sort()
+      .slice(-5)
+      .map((name) => path.join(logDir, name));
+  } catch {
+    return [];
+  }
+}
+
+/** Every `kotlinReview.*` setting the extension contributes, with its effective value. */
+function effectiveSettings(extension: vscode.Extension<unknown>): Record<string, unknown> {
+  const properties: Record<string, unknown> =
+    (extension.packageJSON as { contributes?: { configuration?: { properties?: Record<string, unknown> } } })
+      .contributes?.configuration?.properties ?? {};
+  const config = vscode.workspace.getConfiguration();
+  const settings: Record<string, unknown> = {};
+  for (const key of Object.keys(properties)) settings[key] = config.get(key);
+  return settings;
+}
+
+/** Replace workspace folders, the home directory and the user name, longest first, in plain and URI form. */
+function pathRedactor(): (text: string) => string {
+  const replacements: [string, string][] = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    if (folder.uri.scheme !== "file") continue;
+    replacements.push([folder.uri.fsPath, `<workspace:${folder.name}>`]);
+    replacements.push([folder.uri.toString(), `file:///<workspace:${folder.name}>`]);
+    replacements.push([folder.uri.path, `/<workspace:${folder.name}>`]);
+  }
+  const home = os.homedir();
+  replacements.push([home, "~"], [vscode.Uri.file(home).path, "/~"]);
+  const user = userName();
+  const sorted = replacements.filter(([from]) => from.length > 1).sort((a, b) => b[0].length - a[0].length);
+  const userPattern = user && user.length > 2 ? new RegExp(`\\b${user.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "g") : undefined;
+  return (text) => {
+    let result = text;
+    for (const [from, to] of sorted) result = result.split(from).join(to);
+    return userPattern ? result.replace(userPattern, "<user>") : result;
+  };
+}
+
+/** The OS user name, or undefined where there is none (e.g. a container user without a passwd entry). */
+function userName(): string | undefined {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return undefined;
+  }
+}
+
+/** `value` with `redact` applied to every string in it, object keys included. */
+function redactValues(value: unknown, redact: (text: string) => string): unknown {
+  if (typeof value === "string") return redact(value);
+  if (Array.isArray(value)) return value.map((item) => redactValues(item, redact));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [redact(key), redactValues(item, redact)]));
+  }
+  return value;
+}
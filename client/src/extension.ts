@@ -1,56 +1,168 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as cp from "child_process";
+import * as net from "net";
+import * as fs from "fs";
+import * as os from "os";
 import {
+  DidChangeConfigurationNotification,
   LanguageClient,
   LanguageClientOptions,
   ServerOptions,
+  State,
+  Trace,
 } from "vscode-languageclient/node";
-import { findJava } from "./javaDetector";
-import { getServerJvmArgs, getTraceServer, getBuildVariant, getAutoGenerate } from "./config";
+import { findAllJavas, findJava, JavaInfo } from "./javaDetector";
+import {
+  getServerJvmArgs,
+  getTraceServer,
+  getBuildVariant,
+  getAutoGenerate,
+  getPrimaryTarget,
+  getJavaHome,
+  getModuleVariants,
+  getBuildVariantFor,
+  getCodegenTasks,
+  getServerConnect,
+  getServerDebugPort,
+  getServerPath,
+  getHangTimeout,
+  getServerFileSettings,
+} from "./config";
+import {
+  KMP_TARGETS_REQUEST,
+  KmpTargetsParams,
+  KmpTargetsResult,
+  REBUILD_NOTIFICATION,
+  SOURCE_SET_INFO_REQUEST,
+  SourceSetInfoParams,
+  SourceSetInfoResult,
+  VIRTUAL_DOCUMENT_NOTIFICATION,
+  VirtualDocumentParams,
+} from "./protocol";
+import { maxHeapMb, RestartingErrorHandler, StderrTail, withIncreasedHeap } from "./crashRecovery";
+import { estimateHeap, formatMb, isOutOfMemory, readResidentBytes } from "./serverMemory";
+import { AndroidModule, findAndroidModules, moduleForFile, moduleVariantKey } from "./androidVariants";
+import { detectCodegenTasks, expandConfiguredTasks } from "./codegen";
+import { killAllGradleProcesses, runGradle, setGradleGuard } from "./gradleRunner";
+import { GradleTrust } from "./gradleTrust";
+import { RotatingLogFile, withLogFile } from "./logFile";
+import { collectDiagnostics } from "./diagnosticsBundle";
+import { HangWatchdog } from "./hangWatchdog";
+import { FileGuard } from "./fileGuard";
+import { ExternalFormatter } from "./formatter";
+import { PerformanceStatsPanel, RequestStats } from "./performanceStats";
+import { GRADLE_TASK_TYPE, GradleTaskInfo, GradleTaskProvider } from "./gradleTasks";
+import { activeGradleRoot, findGradleRoot, gradleFolders } from "./gradleRoots";
+import { ServerStatusItem } from "./serverStatus";
+import { PROJECT_VIEW_ID, ProjectModelView, ProjectNode } from "./projectView";
+import { findDeclarationLine, findLibrarySource, LIBRARY_SCHEME, LibraryContentProvider } from "./librarySources";
+import { MIRRORED_SCHEMES, workspaceFileFor } from "./virtualDocuments";
+import { ReviewMode } from "./reviewMode";
+import { REVIEW_SUMMARY_VIEW_ID, ReviewSummaryView } from "./reviewSummary";
+import { KotlinCodeLensProvider } from "./codeLens";
 
 let client: LanguageClient | undefined;
+let serverProcess: cp.ChildProcess | undefined;
+const stderrTail = new StderrTail();
 let androidStatusBar: vscode.StatusBarItem | undefined;
 let platformStatusBar: vscode.StatusBarItem | undefined;
-let generateTimer: ReturnType<typeof setTimeout> | undefined;
-let generating = false;
-
-function detectPlatformFromPath(filePath: string): string | null {
-  if (filePath.includes("/androidMain/") || filePath.includes("/androidTest/")) return "androidMain";
-  if (filePath.includes("/jvmMain/") || filePath.includes("/jvmTest/")) return "jvmMain";
-  if (filePath.includes("/iosMain/") || filePath.includes("/iosTest/")) return "iosMain";
-  if (filePath.includes("/nativeMain/") || filePath.includes("/nativeTest/")) return "nativeMain";
-  if (filePath.includes("/jsMain/") || filePath.includes("/jsTest/")) return "jsMain";
-  if (filePath.includes("/wasmJsMain/") || filePath.includes("/wasmJsTest/")) return "wasmJsMain";
-  if (filePath.includes("/commonMain/") || filePath.includes("/commonTest/")) return "commonMain";
-  return null;
+const generateTimers = new Map<string, ReturnType<typeof setTimeout>>();
+/** Gradle roots with code generation in progress. */
+const generatingRoots = new Set<string>();
+let androidModules: AndroidModule[] = [];
+/** Last variant settings sent to the server, to skip redundant notifications. */
+let sentVariants: string | undefined;
+let gradleDiagnostics: vscode.DiagnosticCollection | undefined;
+/** Set by "Restart Server in Debug Mode" until the next regular restart. */
+let debugMode = false;
+/** JVM arguments the running server was started with (defaults, then the user's). */
+let serverJvmArgs: string[] = [];
+/** Set while saving JVM args the server is restarted with right away, to skip the restart prompt. */
+let applyingJvmArgs = false;
+
+const TARGET_LABELS: Record<string, string> = {
+  JVM: "JVM",
+  ANDROID: "Android",
+  NATIVE: "Native",
+  JS: "JS",
+};
+
+function targetLabel(target: string): string {
+  return TARGET_LABELS[target.toUpperCase()] ?? target;
 }
 
-function updatePlatformIndicator(editor: vscode.TextEditor | undefined): void {
+/** Source set info per document URI; cleared whenever the server finishes (re)building. */
+const sourceSetCache = new Map<string, SourceSetInfoResult | null>();
+let sourceSetRequest = 0;
+
+async function updatePlatformIndicator(editor: vscode.TextEditor | undefined): Promise<void> {
   if (!platformStatusBar) return;
-  if (!editor || editor.document.languageId !== "kotlin") {
+  const request = ++sourceSetRequest;
+  if (!editor || editor.document.languageId !== "kotlin" || editor.document.uri.scheme !== "file") {
     platformStatusBar.hide();
     return;
   }
-  const filePath = editor.document.uri.fsPath;
-  const platform = detectPlatformFromPath(filePath);
-  if (platform) {
-    platformStatusBar.text = `$(symbol-class) Kotlin: ${platform}`;
-    platformStatusBar.tooltip = platform === "commonMain"
-      ? "Click to switch primary target for common files"
-      : `KMP source set: ${platform}`;
-    platformStatusBar.show();
-  } else {
+  const uri = editor.document.uri.toString();
+  let info = sourceSetCache.get(uri);
+  if (info === undefined) {
+    if (!client?.isRunning()) {
+      platformStatusBar.hide();
+      return;
+    }
+    try {
+      const params: SourceSetInfoParams = { uri };
+      info = await client.sendRequest<SourceSetInfoResult | null>(SOURCE_SET_INFO_REQUEST, params);
+    } catch {
+      return;
+    }
+    sourceSetCache.set(uri, info);
+    if (request !== sourceSetRequest) return; // the active editor changed meanwhile
+  }
+  if (!info) {
     platformStatusBar.hide();
+    return;
   }
+
+  // Files compiled for several platforms are analyzed with the primary target
+  const shared = info.platforms.length > 1 || (info.targets.length === 0 && info.sourceSet.startsWith("common"));
+  const primaryTarget = getPrimaryTarget();
+  platformStatusBar.text = shared && primaryTarget
+    ? `$(symbol-class) Kotlin: ${info.sourceSet} → ${targetLabel(primaryTarget)}`
+    : `$(symbol-class) Kotlin: ${info.sourceSet}`;
+
+  const tooltip = new vscode.MarkdownString();
+  tooltip.appendMarkdown(`Source set **${info.sourceSet}** of module \`${info.module}\`${info.isTest ? " (tests)" : ""}`);
+  if (info.dependsOn.length > 0) {
+    tooltip.appendMarkdown(`\n\nDepends on: ${info.dependsOn.join(" → ")}`);
+  }
+  if (info.targets.length > 0) {
+    tooltip.appendMarkdown(`\n\nCompiled for: ${info.targets.join(", ")} (${info.platforms.map(targetLabel).join(", ")})`);
+  }
+  if (shared) {
+    tooltip.appendMarkdown("\n\nClick to switch the primary target for shared files");
+  }
+  platformStatusBar.tooltip = tooltip;
+  platformStatusBar.command = shared ? "kotlinReview.selectPrimaryTarget" : undefined;
+  platformStatusBar.show();
+}
+
+/** Forget cached source sets, e.g. after the project model was rebuilt. */
+function refreshPlatformIndicator(): void {
+  sourceSetCache.clear();
+  updatePlatformIndicator(vscode.window.activeTextEditor);
 }
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
-  const outputChannel = vscode.window.createOutputChannel("Kotlin Review");
+  // Everything shown in the output channel (including server stderr and traces) is also
+  // kept in rotating files in the extension's log directory, for diagnostics bundles
+  const logFile = new RotatingLogFile(context.logUri.fsPath);
+  context.subscriptions.push(logFile);
+  const outputChannel = withLogFile(vscode.window.createOutputChannel("Kotlin Review"), logFile);
 
-  let javaInfo;
+  let javaInfo: JavaInfo;
   try {
-    javaInfo = findJava();
+    javaInfo = await findJava();
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
     vscode.window.showErrorMessage(msg);
@@ -60,29 +172,204 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
   outputChannel.appendLine(`Using Java ${javaInfo.version} at ${javaInfo.javaPath}`);
 
-  const jarPath = path.join(context.extensionPath, "server", "server-all.jar");
+  const bundledJarPath = path.join(context.extensionPath, "server", "server-all.jar");
 
-  const defaultJvmArgs = [
-    "-Xmx4g",
-    "-XX:+UseG1GC",
-  ];
-  const userJvmArgs = getServerJvmArgs();
+  // The default heap depends on the machine and the workspace size, estimated on first start.
+  // Exit on OutOfMemoryError rather than limp on, so the user can be offered a larger heap.
+  let defaultJvmArgs: string[] | undefined;
+  const getDefaultJvmArgs = async (): Promise<string[]> => {
+    if (!defaultJvmArgs) {
+      const estimate = await estimateHeap();
+      outputChannel.appendLine(
+        `Default server heap ${formatMb(estimate.heapMb)} (${estimate.ktFiles} Kotlin files, ` +
+        `${estimate.modules} modules, ${formatMb(os.totalmem() / (1024 * 1024))} memory)`
+      );
+      // VM output (OOM exit message, SIGQUIT thread dumps) goes to stderr, away from the protocol stream
+      defaultJvmArgs = [
+        `-Xmx${estimate.heapMb}m`, "-XX:+UseG1GC", "-XX:+ExitOnOutOfMemoryError", "-XX:+DisplayVMOutputToStderr",
+      ];
+    }
+    return defaultJvmArgs;
+  };
+
+  // Spawn the server ourselves so restarts pick up current JVM args and
+  // stderr can be kept for crash reports. The client still mirrors stderr
+  // to the output channel.
+  // With kotlinReview.server.connect set, connect to a server started elsewhere (e.g. in a debugger) instead.
+  const serverOptions: ServerOptions = async () => {
+    const connect = getServerConnect();
+    if (connect) {
+      outputChannel.appendLine(`Connecting to language server at ${connect.host}:${connect.port}`);
+      const socket = await new Promise<net.Socket>((resolve, reject) => {
+        const s = net.connect(connect.port, connect.host, () => resolve(s));
+        s.once("error", (err) => reject(new Error(
+          `Cannot connect to the language server at ${connect.host}:${connect.port}: ${err.message}`
+        )));
+      });
+      return { reader: socket, writer: socket };
+    }
 
-  const serverOptions: ServerOptions = {
-    command: javaInfo.javaPath,
-    args: [...defaultJvmArgs, ...userJvmArgs, "-jar", jarPath],
+    // Re-detect on every (re)start so a newly selected Java runtime is picked up
+    const java = await findJava();
+    if (java.javaPath !== javaInfo.javaPath) {
+      outputChannel.appendLine(`Using Java ${java.version} at ${java.javaPath}`);
+      javaInfo = java;
+    }
+    const debugArgs = debugMode
+      ? [`-agentlib:jdwp=transport=dt_socket,server=y,suspend=n,address=127.0.0.1:${getServerDebugPort()}`]
+      : [];
+    if (debugMode) outputChannel.appendLine(`Server debug agent listening on 127.0.0.1:${getServerDebugPort()}`);
+    // A local server build (kotlinReview.server.path) replaces the bundled one
+    let jarPath = bundledJarPath;
+    const customJar = getServerPath();
+    if (customJar) {
+      if (fs.existsSync(customJar)) {
+        jarPath = customJar;
+        outputChannel.appendLine(`Using server JAR ${customJar}`);
+      } else {
+        outputChannel.appendLine(`[ERROR] Server JAR ${customJar} (kotlinReview.server.path) not found, using the bundled server`);
+      }
+    }
+    const jvmArgs = [...await getDefaultJvmArgs(), ...getServerJvmArgs()];
+    const args = [...jvmArgs, ...debugArgs, "-jar", jarPath];
+    const proc = cp.spawn(javaInfo.javaPath, args, { stdio: ["pipe", "pipe", "pipe"] });
+    serverJvmArgs = jvmArgs;
+    stderrTail.clear();
+    let outOfMemory = false;
+    proc.stderr?.on("data", (data: Buffer) => {
+      const text = data.toString();
+      stderrTail.append(text);
+      if (isOutOfMemory(text)) outOfMemory = true;
+    });
+    proc.on("exit", (code, signal) => {
+      if (serverProcess === proc) serverProcess = undefined;
+      if (code !== 0 && code !== null) {
+        outputChannel.appendLine(`[ERROR] Server process exited with code ${code}`);
+      } else if (signal) {
+        outputChannel.appendLine(`[ERROR] Server process killed by ${signal}`);
+      }
+      // -XX:+ExitOnOutOfMemoryError exits with code 3. Restarting with the same heap would
+      // likely run out again, so the user picks how to restart instead.
+      if (outOfMemory || code === 3) {
+        errorHandler.suppressRestart();
+        showOutOfMemoryNotification(jvmArgs, outputChannel);
+      }
+    });
+    serverProcess = proc;
+    return proc;
   };
 
-  const traceServer = getTraceServer();
+  const serverStatus = new ServerStatusItem("kotlinReview.showServerActions");
+  context.subscriptions.push(serverStatus);
+
+  // Resident memory of the server process, for the status item tooltip
+  const memoryTimer = setInterval(async () => {
+    const heapMb = maxHeapMb(serverJvmArgs);
+    const rss = serverProcess?.pid !== undefined ? await readResidentBytes(serverProcess.pid) : undefined;
+    if (!serverProcess || heapMb === undefined) {
+      serverStatus.setMemory(undefined);
+      return;
+    }
+    const resident = rss !== undefined ? `${formatMb(rss / (1024 * 1024))} resident, ` : "";
+    serverStatus.setMemory(`Memory: ${resident}max heap ${formatMb(heapMb)}`);
+  }, 5000);
+  context.subscriptions.push({ dispose: () => clearInterval(memoryTimer) });
+
+  const projectView = new ProjectModelView(() => client);
+
+  const codeLensProvider = new KotlinCodeLensProvider(() => client);
+
+  const reviewMode = new ReviewMode(context.workspaceState, outputChannel);
+  const reviewSummary = new ReviewSummaryView(reviewMode);
+  context.subscriptions.push(reviewMode);
+
+  const watchdog = new HangWatchdog({
+    // A server paused at a breakpoint isn't hung
+    getTimeoutSeconds: () => (debugMode ? 0 : getHangTimeout()),
+    getServerProcess: () => serverProcess,
+    getJavaPath: () => javaInfo.javaPath,
+    logDir: context.logUri.fsPath,
+    outputChannel,
+  });
+
+  const fileGuard = new FileGuard();
+
+  const requestStats = new RequestStats();
+  context.subscriptions.push(requestStats);
+
+  const errorHandler = new RestartingErrorHandler(outputChannel, (crashCount) => {
+    serverStatus.setFailure(`server crashed ${crashCount} times`);
+    showCrashNotification(crashCount, serverJvmArgs, outputChannel);
+  });
+  context.subscriptions.push(errorHandler);
 
   const clientOptions: LanguageClientOptions = {
     documentSelector: [
       { scheme: "file", language: "kotlin" },
+      // Diff views, untitled buffers and library sources, analyzed in memory by the server
+      ...MIRRORED_SCHEMES.map((scheme) => ({ scheme, language: "kotlin" })),
     ],
     outputChannel,
     traceOutputChannel: outputChannel,
-    initializationOptions: {
-      buildVariant: getBuildVariant(),
+    errorHandler,
+    middleware: {
+      // Every request is timed, for the latency stats and so a server that stops answering is noticed
+      sendRequest: (type, param, token, next) => {
+        // Excluded files get no results without asking the server
+        const documentUri = (param as { textDocument?: { uri?: string } } | undefined)?.textDocument?.uri;
+        if (documentUri && fileGuard.isExcluded(documentUri)) return noResult();
+        const method = typeof type === "string" ? type : type.method;
+        return requestStats.time(method, param, () => watchdog.track(method, () => next(type, param, token)));
+      },
+      didOpen: async (document, next) => {
+        if (fileGuard.check(document)) return;
+        if (client && MIRRORED_SCHEMES.includes(document.uri.scheme)) {
+          const workspaceFile = workspaceFileFor(document.uri);
+          const params: VirtualDocumentParams = {
+            uri: client.code2ProtocolConverter.asUri(document.uri),
+            workspaceUri: workspaceFile ? client.code2ProtocolConverter.asUri(workspaceFile) : null,
+          };
+          await client.sendNotification(VIRTUAL_DOCUMENT_NOTIFICATION, params);
+        }
+        return next(document);
+      },
+      didChange: (event, next) => (fileGuard.isExcluded(event.document.uri) ? Promise.resolve() : next(event)),
+      didSave: (document, next) => (fileGuard.isExcluded(document.uri) ? Promise.resolve() : next(document)),
+      didClose: (document, next) => {
+        if (!fileGuard.isExcluded(document.uri)) return next(document);
+        fileGuard.forget(document.uri);
+        return Promise.resolve();
+      },
+      // Review mode limits diagnostics to the changed lines
+      handleDiagnostics: (uri, diagnostics, next) => next(uri, reviewMode.filterDiagnostics(uri, diagnostics)),
+      provideDefinition: async (document, position, token, next) =>
+        toLibrarySources(await next(document, position, token), document, position),
+      provideTypeDefinition: async (document, position, token, next) =>
+        toLibrarySources(await next(document, position, token), document, position),
+      // Server progress drives the state indicator; VS Code still shows it as usual
+      handleWorkDoneProgress: (token, params, next) => {
+        serverStatus.handleProgress(token, params);
+        if (params.kind === "begin") requestStats.progressBegin(token, params.title);
+        else if (params.kind === "end") requestStats.progressEnd(token, params.message);
+        next(token, params);
+        if (params.kind === "end") {
+          refreshPlatformIndicator();
+          projectView.refresh();
+          codeLensProvider.refresh();
+        }
+      },
+    },
+    // Evaluated on every (re)start so the server always sees current settings
+    initializationOptions: () => {
+      const variants = serverVariants();
+      sentVariants = JSON.stringify(variants);
+      // Untrusted workspaces are analyzed without running their Gradle build
+      return {
+        ...variants,
+        primaryTarget: getPrimaryTarget(),
+        trustedWorkspace: vscode.workspace.isTrusted,
+        files: getServerFileSettings(),
+      };
     },
   };
 
@@ -93,81 +380,379 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     clientOptions
   );
 
+  client.onDidChangeState((e) => {
+    serverStatus.setClientState(e.newState);
+    if (e.newState === State.Starting) watchdog.reset();
+    requestStats.event(`Server ${State[e.newState].toLowerCase()}${debugMode ? " (debug mode)" : ""}`);
+    refreshPlatformIndicator();
+    projectView.refresh();
+    if (e.newState === State.Running) checkServerVersion(context.extension.packageJSON.version, outputChannel);
+  }, null, context.subscriptions);
+
+  const traceServer = getTraceServer();
   if (traceServer !== "off") {
-    client.setTrace(
-      traceServer === "verbose"
-        ? vscode.lsp.Trace.Verbose
-        : vscode.lsp.Trace.Messages
-    );
+    client.setTrace(Trace.fromString(traceServer));
   }
 
-  // --- Android status bar ---
+  // --- Android status bar (shown once Android modules are found) ---
   androidStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
   androidStatusBar.command = "kotlinReview.selectBuildVariant";
-  androidStatusBar.tooltip = "Click to change Android build variant";
-  updateStatusBar();
-  androidStatusBar.show();
   context.subscriptions.push(androidStatusBar);
+  vscode.window.onDidChangeActiveTextEditor(() => updateStatusBar(), null, context.subscriptions);
+  const refreshModules = () => {
+    refreshAndroidModules().catch((e: unknown) => {
+      const msg = e instanceof Error ? e.message : String(e);
+      outputChannel.appendLine(`[Android] Failed to find Android modules: ${msg}`);
+    });
+  };
+  vscode.workspace.onDidChangeWorkspaceFolders(() => {
+    refreshModules();
+    // Exclude globs are relative to the workspace folders
+    if (client?.isRunning()) {
+      client.sendNotification(DidChangeConfigurationNotification.type, { settings: { files: getServerFileSettings() } });
+    }
+  }, null, context.subscriptions);
+  refreshModules();
+
+  const buildFileWatcher = vscode.workspace.createFileSystemWatcher("**/build.gradle{,.kts}");
+  buildFileWatcher.onDidCreate(refreshModules, null, context.subscriptions);
+  buildFileWatcher.onDidChange(refreshModules, null, context.subscriptions);
+  buildFileWatcher.onDidDelete(refreshModules, null, context.subscriptions);
+  context.subscriptions.push(buildFileWatcher);
 
   // --- KMP platform indicator ---
   platformStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-  platformStatusBar.command = "kotlinReview.selectPrimaryTarget";
   context.subscriptions.push(platformStatusBar);
 
   vscode.window.onDidChangeActiveTextEditor(updatePlatformIndicator, null, context.subscriptions);
   updatePlatformIndicator(vscode.window.activeTextEditor);
 
+  // --- Library sources (read-only jar: documents from go-to-definition) ---
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(
+      LIBRARY_SCHEME,
+      new LibraryContentProvider(() => javaInfo.javaPath)
+    ),
+    vscode.workspace.onDidOpenTextDocument((doc) => {
+      // Class files without sources are shown as javap declarations
+      if (doc.uri.scheme === LIBRARY_SCHEME && doc.uri.path.endsWith(".class")) {
+        vscode.languages.setTextDocumentLanguage(doc, "java");
+      }
+    })
+  );
+
+  // --- Reference counts and expect/actual lenses ---
+  context.subscriptions.push(
+    vscode.languages.registerCodeLensProvider({ scheme: "file", language: "kotlin" }, codeLensProvider),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("kotlinReview.codeLens.enabled")) codeLensProvider.refresh();
+    })
+  );
+
+  // --- Formatting with an external ktfmt or ktlint ---
+  const formatter = new ExternalFormatter(() => javaInfo.javaPath, outputChannel);
+  context.subscriptions.push(
+    vscode.languages.registerDocumentFormattingEditProvider({ scheme: "file", language: "kotlin" }, formatter),
+    vscode.languages.registerDocumentRangeFormattingEditProvider({ scheme: "file", language: "kotlin" }, formatter),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("kotlinReview.format")) formatter.reset();
+    })
+  );
+
+  // --- Project model view (Explorer > Kotlin Project) ---
+  context.subscriptions.push(
+    vscode.window.createTreeView(PROJECT_VIEW_ID, { treeDataProvider: projectView, showCollapseAll: true }),
+    vscode.commands.registerCommand("kotlinReview.projectModel.refresh", () => projectView.refresh()),
+    vscode.commands.registerCommand("kotlinReview.projectModel.revealSourceRoot", async (node: ProjectNode) => {
+      if (node?.kind !== "path") return;
+      const uri = vscode.Uri.file(node.path);
+      // Only folders inside the workspace can be revealed in the Explorer
+      const command = vscode.workspace.getWorkspaceFolder(uri) ? "revealInExplorer" : "revealFileInOS";
+      await vscode.commands.executeCommand(command, uri);
+    }),
+    vscode.commands.registerCommand("kotlinReview.projectModel.copyClasspath", async (node: ProjectNode) => {
+      if (node?.kind !== "group") return;
+      await vscode.env.clipboard.writeText(node.paths.join(path.delimiter));
+      vscode.window.showInformationMessage(`Copied ${node.paths.length} classpath entries.`);
+    })
+  );
+
+  // --- Review mode (diagnostics and summary limited to changes against a base ref) ---
+  const reviewView = vscode.window.createTreeView(REVIEW_SUMMARY_VIEW_ID, { treeDataProvider: reviewSummary });
+  const updateReviewView = () => {
+    reviewView.description = reviewMode.base ? `vs ${reviewMode.base}` : undefined;
+  };
+  let reviewRefreshTimer: ReturnType<typeof setTimeout> | undefined;
+  let summaryRefreshTimer: ReturnType<typeof setTimeout> | undefined;
+  context.subscriptions.push(
+    reviewView,
+    reviewMode.onDidChange(() => {
+      reviewMode.reapply(client?.diagnostics);
+      updateReviewView();
+      reviewSummary.refresh(true);
+    }),
+    vscode.languages.onDidChangeDiagnostics(() => {
+      if (!reviewMode.active) return;
+      clearTimeout(summaryRefreshTimer);
+      summaryRefreshTimer = setTimeout(() => reviewSummary.refresh(), 500);
+    }),
+    // Saved edits change the diff; recompute once saving settles
+    vscode.workspace.onDidSaveTextDocument((doc) => {
+      if (!reviewMode.active || doc.languageId !== "kotlin" || doc.uri.scheme !== "file") return;
+      clearTimeout(reviewRefreshTimer);
+      reviewRefreshTimer = setTimeout(() => reviewMode.refresh(), 1000);
+    }),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("kotlinReview.review.diagnostics")) reviewMode.reapply(client?.diagnostics);
+    }),
+    vscode.commands.registerCommand("kotlinReview.startReview", async () => {
+      let refs: string[];
+      try {
+        refs = await reviewMode.listRefs();
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        vscode.window.showErrorMessage(`Kotlin Review: cannot list git branches: ${msg}`);
+        return;
+      }
+      if (refs.length === 0) {
+        vscode.window.showWarningMessage("Kotlin Review: review mode needs a git repository in the workspace.");
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        refs.map((ref) => ({ label: ref, description: ref === reviewMode.base ? "current base" : undefined })),
+        { placeHolder: "Base branch to review changes against" }
+      );
+      if (!picked) return;
+      await reviewMode.start(picked.label);
+      await vscode.commands.executeCommand(`${REVIEW_SUMMARY_VIEW_ID}.focus`);
+    }),
+    vscode.commands.registerCommand("kotlinReview.stopReview", () => reviewMode.stop()),
+    vscode.commands.registerCommand("kotlinReview.refreshReview", () => reviewMode.refresh())
+  );
+  updateReviewView();
+  if (reviewMode.active) reviewMode.refresh();
+
+  // --- Workspace trust: no Gradle in Restricted Mode, unknown wrappers need confirmation ---
+  const gradleTrust = new GradleTrust(context.globalState, outputChannel);
+  setGradleGuard((cwd) => gradleTrust.check(cwd));
+  context.subscriptions.push(
+    vscode.workspace.onDidGrantWorkspaceTrust(() => {
+      // The server resolved the project without Gradle; resolve it properly now
+      outputChannel.appendLine("Workspace trusted: restarting the server to resolve the Gradle project");
+      restartClient(outputChannel);
+    })
+  );
+
+  // Compiler errors from Gradle runs, shown in the Problems panel
+  gradleDiagnostics = vscode.languages.createDiagnosticCollection("gradle");
+  context.subscriptions.push(gradleDiagnostics);
+
+  // --- Gradle tasks (Terminal > Run Task and the "Run Gradle Task" command) ---
+  const gradleTaskProvider = new GradleTaskProvider(outputChannel, gradleDiagnostics, context.workspaceState);
+  context.subscriptions.push(vscode.tasks.registerTaskProvider(GRADLE_TASK_TYPE, gradleTaskProvider));
+  const onBuildFileChanged = () => {
+    gradleTaskProvider.invalidate();
+    sourceSetCache.clear();
+  };
+  buildFileWatcher.onDidCreate(onBuildFileChanged, null, context.subscriptions);
+  buildFileWatcher.onDidChange(onBuildFileChanged, null, context.subscriptions);
+  buildFileWatcher.onDidDelete(onBuildFileChanged, null, context.subscriptions);
+
   // --- Commands ---
 
+  // Restart the language server (also skips any pending automatic-restart delay)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("kotlinReview.restartServer", async () => {
+      debugMode = false;
+      errorHandler.reset();
+      if (errorHandler.restartPending) {
+        errorHandler.restartNow();
+        return;
+      }
+      await restartClient(outputChannel);
+    }),
+    vscode.commands.registerCommand("kotlinReview.restartServerDebug", async () => {
+      if (getServerConnect()) {
+        vscode.window.showInformationMessage(
+          "Kotlin Review: connected to an external server (kotlinReview.server.connect); start it with a debug agent instead."
+        );
+        return;
+      }
+      debugMode = true;
+      errorHandler.reset();
+      await restartClient(outputChannel);
+      vscode.window.showInformationMessage(
+        `Kotlin Review: server restarted with a debug agent. Attach a Java debugger to 127.0.0.1:${getServerDebugPort()}.`
+      );
+    })
+  );
+
+  // Ask the server to re-resolve the project and rebuild its analysis sessions
+  context.subscriptions.push(
+    vscode.commands.registerCommand("kotlinReview.rebuildProject", async () => {
+      if (!client?.isRunning()) {
+        vscode.window.showInformationMessage("Kotlin Review language server is not running.");
+        return;
+      }
+      await client.sendNotification(REBUILD_NOTIFICATION);
+    })
+  );
+
+  // Actions menu of the server state indicator
+  context.subscriptions.push(
+    vscode.commands.registerCommand("kotlinReview.showServerActions", async () => {
+      const items: (vscode.QuickPickItem & { command: string })[] = [
+        { label: "$(debug-restart) Restart Server", command: "kotlinReview.restartServer" },
+        { label: "$(debug) Restart Server in Debug Mode", command: "kotlinReview.restartServerDebug" },
+        { label: "$(output) Show Output", command: "kotlinReview.showOutput" },
+        { label: "$(package) Collect Diagnostics Bundle", command: "kotlinReview.collectDiagnostics" },
+        { label: "$(pulse) Show Performance Stats", command: "kotlinReview.showPerformanceStats" },
+        { label: "$(refresh) Rebuild Project", command: "kotlinReview.rebuildProject" },
+        { label: "$(gear) Select Build Variant", command: "kotlinReview.selectBuildVariant" },
+      ];
+      const picked = await vscode.window.showQuickPick(items, { placeHolder: "Kotlin Review language server" });
+      if (picked) await vscode.commands.executeCommand(picked.command);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("kotlinReview.showOutput", () => outputChannel.show(true))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("kotlinReview.showPerformanceStats", () => PerformanceStatsPanel.show(requestStats)),
+    vscode.commands.registerCommand("kotlinReview.collectDiagnostics", () => collectDiagnostics({
+      extension: context.extension,
+      client,
+      javaInfo,
+      logDir: context.logUri.fsPath,
+      logFile,
+    }, outputChannel))
+  );
+
+  // Pick a Java runtime among all detected JDKs
+  context.subscriptions.push(
+    vscode.commands.registerCommand("kotlinReview.selectJavaRuntime", async () => {
+      const javas = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Window,
+        title: "Searching for Java runtimes...",
+      }, () => findAllJavas());
+      if (javas.length === 0) {
+        vscode.window.showWarningMessage("No Java runtimes found. Install a JDK 11+ or set kotlinReview.java.home.");
+        return;
+      }
+
+      const currentHome = getJavaHome();
+      const items = javas.map((java) => ({
+        label: `Java ${java.fullVersion}`,
+        description: [java.vendor, java.source, java.home === currentHome ? "current" : undefined]
+          .filter(Boolean).join(" · "),
+        detail: java.version < 11 ? `${java.home} (not supported: requires Java 11+)` : java.home,
+        java,
+      }));
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: "Select the Java runtime for the Kotlin Review language server",
+        matchOnDescription: true,
+        matchOnDetail: true,
+      });
+      if (!selected || selected.java.home === currentHome) return;
+      if (selected.java.version < 11) {
+        vscode.window.showErrorMessage(`Java ${selected.java.fullVersion} is not supported. Kotlin Review requires Java 11+.`);
+        return;
+      }
+
+      await vscode.workspace.getConfiguration("kotlinReview").update(
+        "java.home", selected.java.home, vscode.ConfigurationTarget.Global
+      );
+      outputChannel.appendLine(`Java runtime changed to: ${selected.java.home}`);
+    })
+  );
+
   // Select primary KMP target for common files
   context.subscriptions.push(
     vscode.commands.registerCommand("kotlinReview.selectPrimaryTarget", async () => {
-      const targets = ["JVM", "Android", "iOS/Native", "JS"];
-      const selected = await vscode.window.showQuickPick(targets, {
+      const editor = vscode.window.activeTextEditor;
+      if (!client?.isRunning() || !editor || editor.document.languageId !== "kotlin") return;
+
+      let result: KmpTargetsResult;
+      try {
+        const params: KmpTargetsParams = { uri: editor.document.uri.toString() };
+        result = await client.sendRequest<KmpTargetsResult>(KMP_TARGETS_REQUEST, params);
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        outputChannel.appendLine(`[KMP] Failed to query targets: ${msg}`);
+        return;
+      }
+      if (result.targets.length === 0) {
+        vscode.window.showInformationMessage("No Kotlin Multiplatform targets were resolved for this module.");
+        return;
+      }
+
+      const current = getPrimaryTarget();
+      const items: (vscode.QuickPickItem & { target: string })[] = [
+        { label: "Default", description: current ? undefined : "current", detail: "JVM, then Android, then first available", target: "" },
+        ...result.targets.map((target) => ({
+          label: targetLabel(target),
+          description: target === current ? "current" : undefined,
+          target,
+        })),
+      ];
+      const selected = await vscode.window.showQuickPick(items, {
         placeHolder: "Select primary target for common files",
       });
-      if (selected) {
-        vscode.window.showInformationMessage(`Primary target set to: ${selected}`);
+      if (selected && selected.target !== current) {
+        await vscode.workspace.getConfiguration("kotlinReview").update(
+          "kmp.primaryTarget", selected.target || undefined, vscode.ConfigurationTarget.Workspace
+        );
       }
     })
   );
 
+  // Apply setting changes (from pickers or settings.json) without reloading the window
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => onConfigurationChanged(e, outputChannel))
+  );
+
   // Generate sources (from code action or manual trigger)
   context.subscriptions.push(
     vscode.commands.registerCommand("kotlinReview.generateSources", (projectDir?: string) => {
-      runCodeGeneration(projectDir || getWorkspaceRoot(), outputChannel);
+      const root = projectDir || activeGradleRoot();
+      if (!root) return;
+      return runCodeGeneration(root, outputChannel, true);
+    })
+  );
+
+  // Run any Gradle task of the workspace
+  context.subscriptions.push(
+    vscode.commands.registerCommand("kotlinReview.runGradleTask", async () => {
+      await runGradleTask(gradleTaskProvider, outputChannel);
     })
   );
 
   // Select build variant
   context.subscriptions.push(
     vscode.commands.registerCommand("kotlinReview.selectBuildVariant", async () => {
-      const variant = await vscode.window.showInputBox({
-        prompt: "Enter Android build variant name",
-        value: getBuildVariant(),
-        placeHolder: "debug, release, stagingDebug, etc.",
-      });
-      if (variant && variant !== getBuildVariant()) {
-        await vscode.workspace.getConfiguration("kotlinReview").update(
-          "android.buildVariant", variant, vscode.ConfigurationTarget.Workspace
-        );
-        updateStatusBar();
-        outputChannel.appendLine(`Build variant changed to: ${variant}`);
-      }
+      await selectBuildVariant(outputChannel);
     })
   );
 
   // --- Auto-generate on save ---
   context.subscriptions.push(
     vscode.workspace.onDidSaveTextDocument((doc) => {
-      if (!getAutoGenerate()) return;
-      if (doc.languageId !== "kotlin") return;
-
-      // Debounce: reset timer on each save, fire after 3 seconds of inactivity
-      if (generateTimer) clearTimeout(generateTimer);
-      generateTimer = setTimeout(() => {
-        runCodeGeneration(getWorkspaceRoot(), outputChannel);
-      }, 3000);
+      if (doc.languageId !== "kotlin" || doc.uri.scheme !== "file") return;
+      if (!getAutoGenerate(doc.uri) || !vscode.workspace.isTrusted) return;
+      const root = findGradleRoot(doc.uri.fsPath);
+      if (!root) return;
+
+      // Debounce per Gradle root: reset timer on each save, fire after 3 seconds of inactivity
+      clearTimeout(generateTimers.get(root));
+      generateTimers.set(root, setTimeout(() => {
+        generateTimers.delete(root);
+        runCodeGeneration(root, outputChannel).catch((e: unknown) => {
+          const msg = e instanceof Error ? e.message : String(e);
+          outputChannel.appendLine(`[Codegen] Auto-generate failed in ${root}: ${msg}`);
+        });
+      }, 3000));
     })
   );
 
@@ -175,87 +760,542 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   outputChannel.appendLine("Kotlin Review LSP client started");
 }
 
+/**
+ * The server reports library symbols as the class file in their jar. Point
+ * such locations at the library's sources when they can be found, and at the
+ * declaration of the symbol under the cursor rather than the top of the file.
+ */
+async function toLibrarySources(
+  result: vscode.Definition | vscode.LocationLink[] | null | undefined,
+  document: vscode.TextDocument,
+  position: vscode.Position
+): Promise<vscode.Definition | vscode.LocationLink[] | null | undefined> {
+  if (!result) return result;
+  const wordRange = document.getWordRangeAtPosition(position);
+  const name = wordRange ? document.getText(wordRange) : undefined;
+
+  const resolve = async (uri: vscode.Uri, range: vscode.Range): Promise<[vscode.Uri, vscode.Range]> => {
+    if (uri.scheme !== LIBRARY_SCHEME || !uri.path.endsWith(".class")) return [uri, range];
+    const target = (await findLibrarySource(uri)) ?? uri;
+    if (!name) return [target, range];
+    const text = (await vscode.workspace.openTextDocument(target)).getText();
+    const start = new vscode.Position(findDeclarationLine(text, name), 0);
+    return [target, new vscode.Range(start, start)];
+  };
+
+  try {
+    if (!Array.isArray(result)) {
+      const [uri, range] = await resolve(result.uri, result.range);
+      return new vscode.Location(uri, range);
+    }
+    const items: (vscode.Location | vscode.LocationLink)[] = result;
+    return await Promise.all(items.map(async (item) => {
+      if ("uri" in item) {
+        const [uri, range] = await resolve(item.uri, item.range);
+        return new vscode.Location(uri, range);
+      }
+      const [uri, range] = await resolve(item.targetUri, item.targetRange);
+      return { ...item, targetUri: uri, targetRange: range, targetSelectionRange: range };
+    })) as vscode.Location[] | vscode.LocationLink[];
+  } catch {
+    return result;
+  }
+}
+
+/**
+ * Settings the server understands are pushed with `workspace/didChangeConfiguration`
+ * (same keys as `initializationOptions`). Launch-level settings only take effect
+ * when the server process is respawned, so the user is offered a restart.
+ */
+async function onConfigurationChanged(
+  e: vscode.ConfigurationChangeEvent,
+  outputChannel: vscode.OutputChannel
+): Promise<void> {
+  if (e.affectsConfiguration("kotlinReview.trace.server") && client) {
+    const traceServer = getTraceServer();
+    await client.setTrace(Trace.fromString(traceServer));
+    outputChannel.appendLine(`Server trace level changed to: ${traceServer}`);
+  }
+
+  const settings: Record<string, unknown> = {};
+  if (e.affectsConfiguration("kotlinReview.kmp.primaryTarget")) {
+    settings.primaryTarget = getPrimaryTarget();
+    updatePlatformIndicator(vscode.window.activeTextEditor);
+    outputChannel.appendLine(`Primary KMP target changed to: ${settings.primaryTarget || "default"}`);
+  }
+  if (
+    e.affectsConfiguration("kotlinReview.android.buildVariant") ||
+    e.affectsConfiguration("kotlinReview.android.moduleVariants")
+  ) {
+    // The server rebuilds its analysis sessions for the new variant
+    const variants = serverVariants();
+    const serialized = JSON.stringify(variants);
+    if (serialized !== sentVariants) {
+      Object.assign(settings, variants);
+      sentVariants = serialized;
+    }
+    updateStatusBar();
+  }
+  if (e.affectsConfiguration("kotlinReview.files")) {
+    // The server rebuilds its sessions without the excluded files; open files keep their state until reopened
+    settings.files = getServerFileSettings();
+  }
+  if (Object.keys(settings).length > 0 && client?.isRunning()) {
+    await client.sendNotification(DidChangeConfigurationNotification.type, { settings });
+  }
+
+  if (
+    e.affectsConfiguration("kotlinReview.server.jvmArgs") ||
+    e.affectsConfiguration("kotlinReview.server.connect") ||
+    e.affectsConfiguration("kotlinReview.server.path") ||
+    e.affectsConfiguration("kotlinReview.java.home")
+  ) {
+    if (!client?.isRunning() || applyingJvmArgs) return;
+    const choice = await vscode.window.showInformationMessage(
+      "Kotlin Review: the Java runtime or server launch settings changed. Restart the language server to apply them.",
+      "Restart Server"
+    );
+    if (choice === "Restart Server") {
+      await vscode.commands.executeCommand("kotlinReview.restartServer");
+    }
+  }
+}
+
+/** Server versions already warned about this session, so restarts don't repeat the warning. */
+const warnedServerVersions = new Set<string>();
+
+/**
+ * Warn when the server reports a different version than the extension, e.g. an
+ * outdated local build set in `kotlinReview.server.path`. Unpackaged servers
+ * (run from an IDE) report "dev" and are only logged.
+ */
+async function checkServerVersion(extensionVersion: string, outputChannel: vscode.OutputChannel): Promise<void> {
+  const serverVersion = client?.initializeResult?.serverInfo?.version;
+  if (!serverVersion) return;
+  outputChannel.appendLine(`Server version ${serverVersion}`);
+  if (serverVersion === extensionVersion || serverVersion === "dev" || warnedServerVersions.has(serverVersion)) return;
+  warnedServerVersions.add(serverVersion);
+
+  const customJar = getServerPath();
+  const source = getServerConnect() ? "the connected server" : customJar ? `the server at ${customJar}` : "the bundled server";
+  const actions = customJar && !getServerConnect() ? ["Use Bundled Server"] : [];
+  const choice = await vscode.window.showWarningMessage(
+    `Kotlin Review: ${source} is version ${serverVersion}, but the extension is ${extensionVersion}. Some features may not work.`,
+    ...actions
+  );
+  if (choice !== "Use Bundled Server" || !client) return;
+  // Stop first so the setting change doesn't also offer a restart
+  await client.stop();
+  const config = vscode.workspace.getConfiguration("kotlinReview");
+  const inspected = config.inspect<string>("server.path");
+  if (inspected?.workspaceValue !== undefined) {
+    await config.update("server.path", undefined, vscode.ConfigurationTarget.Workspace);
+  }
+  if (inspected?.globalValue !== undefined) {
+    await config.update("server.path", undefined, vscode.ConfigurationTarget.Global);
+  }
+  await restartClient(outputChannel);
+}
+
+async function restartClient(outputChannel: vscode.OutputChannel): Promise<void> {
+  if (!client) return;
+  outputChannel.appendLine("Restarting Kotlin Review language server...");
+  try {
+    if (client.isRunning()) {
+      await client.restart();
+    } else {
+      await client.start();
+    }
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    outputChannel.appendLine(`[ERROR] Failed to restart server: ${msg}`);
+    vscode.window.showErrorMessage(`Kotlin Review: failed to restart server: ${msg}`);
+  }
+}
+
+async function showCrashNotification(
+  crashCount: number,
+  effectiveJvmArgs: string[],
+  outputChannel: vscode.OutputChannel
+): Promise<void> {
+  const lastLines = stderrTail.last(5);
+  const details = lastLines.length > 0 ? ` Last output: ${lastLines.join(" | ")}` : "";
+  const choice = await vscode.window.showErrorMessage(
+    `Kotlin Review server crashed ${crashCount} times and will not be restarted automatically.${details}`,
+    "Open Output",
+    "Increase heap",
+    "Restart"
+  );
+  if (choice === "Open Output") {
+    outputChannel.show(true);
+  } else if (choice === "Increase heap") {
+    const userArgs = getServerJvmArgs();
+    const newArgs = withIncreasedHeap(effectiveJvmArgs, userArgs);
+    await saveServerJvmArgs(newArgs, outputChannel);
+    await restartClient(outputChannel);
+  } else if (choice === "Restart") {
+    await restartClient(outputChannel);
+  }
+}
+
+/** Offer to restart with a larger heap after the server ran out of memory. */
+async function showOutOfMemoryNotification(
+  effectiveJvmArgs: string[],
+  outputChannel: vscode.OutputChannel
+): Promise<void> {
+  const userArgs = getServerJvmArgs();
+  const newArgs = withIncreasedHeap(effectiveJvmArgs, userArgs);
+  const currentMb = maxHeapMb(effectiveJvmArgs);
+  const nextMb = maxHeapMb(newArgs) ?? 0;
+  outputChannel.appendLine(`[ERROR] Server ran out of memory${currentMb ? ` (max heap ${formatMb(currentMb)})` : ""}`);
+  const increase = `Restart with ${formatMb(nextMb)}`;
+  const choice = await vscode.window.showErrorMessage(
+    `Kotlin Review: the language server ran out of memory${currentMb ? ` with a ${formatMb(currentMb)} heap` : ""} ` +
+      "and was not restarted. The larger heap is saved to kotlinReview.server.jvmArgs.",
+    increase,
+    "Restart",
+    "Open Output"
+  );
+  if (choice === increase) {
+    await saveServerJvmArgs(newArgs, outputChannel);
+    await vscode.commands.executeCommand("kotlinReview.restartServer");
+  } else if (choice === "Restart") {
+    await vscode.commands.executeCommand("kotlinReview.restartServer");
+  } else if (choice === "Open Output") {
+    outputChannel.show(true);
+  }
+}
+
+/** Save JVM args to user settings for a restart that follows right away. */
+async function saveServerJvmArgs(args: string[], outputChannel: vscode.OutputChannel): Promise<void> {
+  applyingJvmArgs = true;
+  try {
+    await vscode.workspace.getConfiguration("kotlinReview").update(
+      "server.jvmArgs", args.join(" "), vscode.ConfigurationTarget.Global
+    );
+  } finally {
+    applyingJvmArgs = false;
+  }
+  outputChannel.appendLine(`Server JVM args changed to: ${args.join(" ")}`);
+}
+
 function updateStatusBar(): void {
   if (!androidStatusBar) return;
-  const variant = getBuildVariant();
-  if (generating) {
+  if (androidModules.length === 0) {
+    androidStatusBar.hide();
+    return;
+  }
+  const uri = vscode.window.activeTextEditor?.document.uri;
+  const filePath = uri?.scheme === "file" ? uri.fsPath : undefined;
+  const module = filePath ? moduleForFile(androidModules, filePath) : undefined;
+  const variant = module ? getBuildVariantFor(settingsKey(module), vscode.Uri.file(module.dir)) : getBuildVariant(uri);
+  const root = module?.rootDir ?? (filePath ? findGradleRoot(filePath) : undefined);
+  if (root ? generatingRoots.has(root) : generatingRoots.size > 0) {
     androidStatusBar.text = "$(sync~spin) Generating...";
   } else {
     androidStatusBar.text = `$(gear) Android: ${variant}`;
   }
+  androidStatusBar.tooltip = module
+    ? `Build variant for ${module.gradlePath}. Click to change.`
+    : "Click to change Android build variant";
+  androidStatusBar.show();
 }
 
-function getWorkspaceRoot(): string {
-  const folders = vscode.workspace.workspaceFolders;
-  return folders?.[0]?.uri.fsPath || "";
+async function refreshAndroidModules(): Promise<void> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const modules = await Promise.all(folders.map((folder) => findAndroidModules(folder.uri.fsPath)));
+  androidModules = modules.flat();
+  updateStatusBar();
+  pushVariantsToServer();
 }
 
-function runCodeGeneration(projectDir: string, outputChannel: vscode.OutputChannel): void {
-  if (generating) return; // already running
+/** Key of `module` in the `android.moduleVariants` of its workspace folder. */
+function settingsKey(module: AndroidModule): string {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(module.dir));
+  return moduleVariantKey(module, folder?.uri.fsPath ?? module.rootDir);
+}
 
-  const variant = getBuildVariant();
-  const cap = variant.charAt(0).toUpperCase() + variant.slice(1);
-  const tasks = [`generate${cap}Resources`, `generate${cap}BuildConfig`, "--continue", "-q"];
+/**
+ * Variant settings for the server, which has a single default variant: the
+ * workspace-wide default plus an override for every module whose folder-level
+ * settings pick a different variant. Modules are keyed relative to the first
+ * workspace folder, the server's workspace root.
+ */
+function serverVariants(): { buildVariant: string; moduleVariants: Record<string, string> } {
+  const buildVariant = getBuildVariant();
+  const moduleVariants = { ...getModuleVariants() };
+  const serverRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  for (const module of androidModules) {
+    const key = settingsKey(module);
+    const serverKey = serverRoot ? moduleVariantKey(module, serverRoot) : key;
+    const variant = getBuildVariantFor(key, vscode.Uri.file(module.dir));
+    if (key !== serverKey) delete moduleVariants[key];
+    if (variant === buildVariant) {
+      delete moduleVariants[serverKey];
+    } else {
+      moduleVariants[serverKey] = variant;
+    }
+  }
+  return { buildVariant, moduleVariants };
+}
 
-  generating = true;
-  updateStatusBar();
+/** Send the variant settings if they changed, e.g. after modules were discovered. */
+function pushVariantsToServer(): void {
+  const variants = serverVariants();
+  const serialized = JSON.stringify(variants);
+  if (serialized === sentVariants || !client?.isRunning()) return;
+  sentVariants = serialized;
+  client.sendNotification(DidChangeConfigurationNotification.type, { settings: variants });
+}
 
-  vscode.window.withProgress({
-    location: vscode.ProgressLocation.Window,
-    title: `Generating Android sources (${variant})...`,
-  }, () => {
-    return new Promise<void>((resolve) => {
-      const cwd = projectDir || getWorkspaceRoot();
-      if (!cwd) {
-        generating = false;
-        updateStatusBar();
-        resolve();
-        return;
-      }
+/** Folder-level settings in multi-root workspaces, workspace settings otherwise. */
+function variantConfigTarget(): vscode.ConfigurationTarget {
+  return (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+    ? vscode.ConfigurationTarget.WorkspaceFolder
+    : vscode.ConfigurationTarget.Workspace;
+}
 
-      outputChannel.appendLine(`[Android] Running: ./gradlew ${tasks.join(" ")} in ${cwd}`);
+type VariantPick = vscode.QuickPickItem & { variant?: string; custom?: boolean };
+type ModulePick = vscode.QuickPickItem & { module?: AndroidModule; folder?: vscode.WorkspaceFolder };
 
-      const proc = cp.spawn("./gradlew", tasks, {
-        cwd,
-        shell: true,
-        stdio: ["ignore", "pipe", "pipe"],
-      });
+async function selectBuildVariant(outputChannel: vscode.OutputChannel): Promise<void> {
+  if (androidModules.length === 0) await refreshAndroidModules();
+  if (androidModules.length === 0) {
+    vscode.window.showInformationMessage("No Android modules found in this workspace.");
+    return;
+  }
+  const folderOf = (m: AndroidModule) => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(m.dir));
+  const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
 
-      let stderr = "";
-      proc.stdout?.on("data", (data: Buffer) => {
-        const text = data.toString().trim();
-        if (text) outputChannel.appendLine(`[Android] ${text}`);
-      });
-      proc.stderr?.on("data", (data: Buffer) => {
-        stderr += data.toString();
-      });
+  // 1. Which module? (skipped for single-module projects)
+  let module: AndroidModule | undefined = androidModules.length === 1 ? androidModules[0] : undefined;
+  let folder = module ? folderOf(module) : undefined;
+  if (!module) {
+    const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    const active = filePath ? moduleForFile(androidModules, filePath) : undefined;
+    const modules = active ? [active, ...androidModules.filter((m) => m !== active)] : androidModules;
+    const folders = [...new Set(modules.map(folderOf))].filter((f): f is vscode.WorkspaceFolder => !!f);
+    const moduleItems: ModulePick[] = [
+      ...(multiRoot
+        ? folders.map((f) => ({ label: `All modules in ${f.name}`, description: `default: ${getBuildVariant(f.uri)}`, folder: f }))
+        : [{ label: "All modules", description: `default: ${getBuildVariant()}`, folder: folders[0] }]),
+      ...modules.map((m) => {
+        const variant = getBuildVariantFor(settingsKey(m), vscode.Uri.file(m.dir));
+        return {
+          label: settingsKey(m),
+          description: multiRoot ? `${folderOf(m)?.name} · ${variant}` : variant,
+          module: m,
+          folder: folderOf(m),
+        };
+      }),
+    ];
+    const pickedModule = await vscode.window.showQuickPick(moduleItems, {
+      placeHolder: "Select the Android module to change the build variant for",
+      matchOnDescription: multiRoot,
+    });
+    if (!pickedModule) return;
+    module = pickedModule.module;
+    folder = pickedModule.folder;
+  }
+  const scope = module ? vscode.Uri.file(module.dir) : folder?.uri;
 
-      proc.on("close", (code) => {
-        generating = false;
-        updateStatusBar();
-        if (code === 0) {
-          outputChannel.appendLine("[Android] Code generation completed successfully");
-        } else {
-          outputChannel.appendLine(`[Android] Code generation finished with exit code ${code}`);
-          if (stderr.trim()) {
-            outputChannel.appendLine(`[Android] ${stderr.trim().split("\n").slice(0, 5).join("\n")}`);
-          }
-        }
-        resolve();
-      });
+  // 2. Which variant? Offer what the build files declare, plus free text for convention plugins.
+  const current = module ? getBuildVariantFor(settingsKey(module), scope) : getBuildVariant(scope);
+  const declared = module
+    ? module.variants
+    : [...new Set(androidModules.filter((m) => folderOf(m) === folder).flatMap((m) => m.variants ?? []))];
+  const variants = declared && declared.length > 0 ? declared : ["debug", "release"];
+  const variantItems: VariantPick[] = [
+    ...variants.map((v) => ({ label: v, description: v === current ? "current" : undefined, variant: v })),
+    { label: "$(edit) Enter another variant...", custom: true },
+  ];
+  const pickedVariant = await vscode.window.showQuickPick(variantItems, {
+    placeHolder: module
+      ? `Build variant for ${module.gradlePath}`
+      : multiRoot && folder ? `Default build variant for all modules in ${folder.name}` : "Default build variant for all modules",
+  });
+  if (!pickedVariant) return;
 
-      proc.on("error", (err) => {
-        generating = false;
-        updateStatusBar();
-        outputChannel.appendLine(`[Android] Failed to run Gradle: ${err.message}`);
-        resolve();
-      });
+  let variant = pickedVariant.variant;
+  if (pickedVariant.custom) {
+    variant = await vscode.window.showInputBox({
+      prompt: "Enter Android build variant name",
+      value: current,
+      placeHolder: "debug, release, stagingDebug, etc.",
+      validateInput: (value) => /^[A-Za-z][A-Za-z0-9_]*$/.test(value) ? undefined : "Variant names are identifiers, e.g. stagingDebug",
     });
-  });
+  }
+  if (!variant || variant === current) return;
+
+  // 3. Save: module overrides that equal the default are dropped
+  const config = vscode.workspace.getConfiguration("kotlinReview", scope);
+  if (module) {
+    const overrides = { ...getModuleVariants(scope) };
+    if (variant === getBuildVariant(scope)) {
+      delete overrides[settingsKey(module)];
+    } else {
+      overrides[settingsKey(module)] = variant;
+    }
+    await config.update("android.moduleVariants", overrides, variantConfigTarget());
+    outputChannel.appendLine(`Build variant for ${module.gradlePath} changed to: ${variant}`);
+  } else {
+    await config.update("android.buildVariant", variant, variantConfigTarget());
+    outputChannel.appendLine(`Build variant${multiRoot && folder ? ` for ${folder.name}` : ""} changed to: ${variant}`);
+  }
+  updateStatusBar();
+}
+
+type GradleTaskPick = vscode.QuickPickItem & { taskPath?: string; refresh?: boolean };
+
+async function runGradleTask(provider: GradleTaskProvider, outputChannel: vscode.OutputChannel): Promise<void> {
+  const folders = gradleFolders();
+  if (folders.length === 0) {
+    vscode.window.showInformationMessage("No Gradle wrapper (gradlew) found in the workspace folders.");
+    return;
+  }
+  const folder = folders.length === 1
+    ? folders[0]
+    : await vscode.window.showWorkspaceFolderPick({ placeHolder: "Select the Gradle project" });
+  if (!folder) return;
+
+  for (;;) {
+    let tasks: GradleTaskInfo[];
+    try {
+      tasks = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: "Listing Gradle tasks...",
+        cancellable: true,
+      }, (_progress, token) => provider.getTasks(folder, token));
+    } catch (e: unknown) {
+      if (e instanceof vscode.CancellationError) return;
+      const msg = e instanceof Error ? e.message : String(e);
+      outputChannel.appendLine(`[Gradle] Failed to list tasks: ${msg}`);
+      vscode.window.showErrorMessage("Kotlin Review: failed to list Gradle tasks. See the output channel for details.");
+      return;
+    }
+
+    const items: GradleTaskPick[] = [
+      ...tasks.map((task) => ({
+        label: task.path,
+        description: task.group,
+        detail: task.description,
+        taskPath: task.path,
+      })),
+      { label: "$(refresh) Refresh task list", refresh: true },
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: "Select a Gradle task to run",
+      matchOnDescription: true,
+      matchOnDetail: true,
+    });
+    if (!picked) return;
+    if (picked.refresh) {
+      await provider.invalidate();
+      continue;
+    }
+    await vscode.tasks.executeTask(provider.createTask({ type: GRADLE_TASK_TYPE, task: picked.taskPath! }, folder));
+    return;
+  }
+}
+
+async function resolveCodegenTasks(
+  projectDir: string,
+  outputChannel: vscode.OutputChannel
+): Promise<string[]> {
+  const scope = vscode.Uri.file(projectDir);
+  const folder = vscode.workspace.getWorkspaceFolder(scope)?.uri.fsPath ?? projectDir;
+  const variantFor = (gradlePath: string) =>
+    getBuildVariantFor(moduleVariantKey({ rootDir: projectDir, gradlePath }, folder), scope);
+  const configured = getCodegenTasks(scope);
+  if (configured.length > 0) {
+    return expandConfiguredTasks(projectDir, configured, variantFor);
+  }
+  const detected = await detectCodegenTasks(projectDir, variantFor);
+  if (detected.generators.length > 0) {
+    outputChannel.appendLine(`[Codegen] Detected generators: ${detected.generators.join(", ")}`);
+  }
+  return detected.tasks;
+}
+
+async function runCodeGeneration(
+  cwd: string,
+  outputChannel: vscode.OutputChannel,
+  reportResult = false
+): Promise<void> {
+  if (generatingRoots.has(cwd)) return; // already running for this Gradle root
+
+  generatingRoots.add(cwd);
+  updateStatusBar();
+
+  try {
+    const tasks = await resolveCodegenTasks(cwd, outputChannel);
+    if (tasks.length === 0) {
+      outputChannel.appendLine("[Codegen] No code generation tasks detected");
+      if (reportResult) {
+        vscode.window.showInformationMessage(
+          "Kotlin Review: no code generation tasks detected. Set kotlinReview.codegen.tasks to choose them."
+        );
+      }
+      return;
+    }
+
+    const result = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+        ? `Generating sources (${path.basename(cwd)})`
+        : "Generating sources",
+      cancellable: true,
+    }, (progress, token) => runGradle({
+      cwd,
+      args: [...tasks, "--continue"],
+      outputChannel,
+      logPrefix: "[Codegen]",
+      token,
+      onTask: (taskPath) => progress.report({ message: taskPath }),
+      diagnostics: gradleDiagnostics,
+    }));
+
+    if (result.cancelled) {
+      outputChannel.appendLine("[Codegen] Code generation cancelled");
+    } else if (result.error) {
+      outputChannel.appendLine(`[Codegen] Failed to run Gradle: ${result.error.message}`);
+      if (reportResult) {
+        showCodegenFailure(`Failed to run Gradle: ${result.error.message}`, outputChannel);
+      }
+    } else if (result.code === 0) {
+      outputChannel.appendLine(`[Codegen] Code generation completed successfully: ${tasks.join(", ")}`);
+      if (reportResult) {
+        vscode.window.showInformationMessage(`Kotlin Review: ran ${tasks.join(", ")}`);
+      }
+    } else {
+      const errorCount = [...result.problems.values()].flat()
+        .filter((d) => d.severity === vscode.DiagnosticSeverity.Error).length;
+      const problemInfo = errorCount > 0 ? `, ${errorCount} error${errorCount === 1 ? "" : "s"} in Problems` : "";
+      outputChannel.appendLine(`[Codegen] Code generation finished with exit code ${result.code}`);
+      if (reportResult || errorCount > 0) {
+        showCodegenFailure(`Code generation failed (exit code ${result.code}${problemInfo}) running ${tasks.join(", ")}`, outputChannel);
+      }
+    }
+  } finally {
+    generatingRoots.delete(cwd);
+    updateStatusBar();
+  }
+}
+
+/** LSP's empty (null) result, for a request answered without asking the server. */
+function noResult<R>(): Promise<R> {
+  return Promise.resolve(null) as Promise<R>;
+}
+
+async function showCodegenFailure(message: string, outputChannel: vscode.OutputChannel): Promise<void> {
+  const choice = await vscode.window.showWarningMessage(`Kotlin Review: ${message}`, "Open Output");
+  if (choice === "Open Output") outputChannel.show(true);
 }
 
 export async function deactivate(): Promise<void> {
-  if (generateTimer) clearTimeout(generateTimer);
+  for (const timer of generateTimers.values()) clearTimeout(timer);
+  generateTimers.clear();
+  killAllGradleProcesses();
   platformStatusBar?.dispose();
   platformStatusBar = undefined;
   if (client) {
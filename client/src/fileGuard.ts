@@ -0,0 +1,64 @@
+import * as vscode from "vscode";
+import { getFilesExclude, getMaxFileSizeKb } from "./config";
+
+/**
+ * Keeps excluded and oversized Kotlin files (`kotlinReview.files.exclude`,
+ * `kotlinReview.files.maxSizeKb`) from the server: the client middleware skips
+ * their open, change, save and close notifications and answers their requests
+ * with no result. Each file gets a one-time notice saying why it has no
+ * language features. Decided when a file is opened; a settings change applies
+ * to files opened afterwards.
+ */
+export class FileGuard {
+  /** URI -> why it is kept from the server. */
+  private readonly excluded = new Map<string, string>();
+  private readonly noticed = new Set<string>();
+
+  /** Check a document being opened; returns the reason it is excluded, if it is. */
+  check(document: vscode.TextDocument): string | undefined {
+    if (document.uri.scheme !== "file") return undefined;
+    const reason = this.reasonFor(document);
+    if (!reason) return undefined;
+    const key = document.uri.toString();
+    this.excluded.set(key, reason);
+    if (!this.noticed.has(key)) {
+      this.noticed.add(key);
+      this.showNotice(document.uri, reason);
+    }
+    return reason;
+  }
+
+  isExcluded(uri: vscode.Uri | string): boolean {
+    return this.excluded.has(uri.toString());
+  }
+
+  /** A closed document is checked again when it is reopened. */
+  forget(uri: vscode.Uri): void {
+    this.excluded.delete(uri.toString());
+  }
+
+  private reasonFor(document: vscode.TextDocument): string | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const glob = getFilesExclude().find((pattern) =>
+      vscode.languages.match({ pattern: folder ? new vscode.RelativePattern(folder, pattern) : pattern }, document) > 0
+    );
+    if (glob) return `it matches \`${glob}\` in kotlinReview.files.exclude`;
+
+    const maxSizeKb = getMaxFileSizeKb();
+    const sizeKb = Buffer.byteLength(document.getText()) / 1024;
+    if (maxSizeKb > 0 && sizeKb > maxSizeKb) {
+      return `it is ${Math.round(sizeKb)} KB, over kotlinReview.files.maxSizeKb (${maxSizeKb} KB)`;
+    }
+    return undefined;
+  }
+
+  private async showNotice(uri: vscode.Uri, reason: string): Promise<void> {
+    const choice = await vscode.window.showInformationMessage(
+      `Kotlin Review: ${vscode.workspace.asRelativePath(uri, false)} has no language features because ${reason}.`,
+      "Open Settings"
+    );
+    if (choice === "Open Settings") {
+      await vscode.commands.executeCommand("workbench.action.openSettings", "kotlinReview.files");
+    }
+  }
+}
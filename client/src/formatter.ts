@@ -0,0 +1,284 @@
+import * as vscode from "vscode";
+import * as cp from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FormatTool, getFormatTool, getKtfmtPath, getKtfmtStyle, getKtlintPath } from "./config";
+import { diffLines, LineHunk } from "./lineDiff";
+
+/** Zero-based, inclusive line ranges. */
+type LineRanges = [number, number][];
+
+interface Formatter {
+  tool: "ktfmt" | "ktlint";
+  /** ktfmt's jar-with-dependencies, ktlint's `-all` jar or its release binary (an executable jar), or a `ktlint` from the PATH. */
+  file: string;
+  /**
+   * Run `file` itself rather than with `java -jar`: a `ktlint` on the PATH may
+   * be a package manager's launcher script (Homebrew, SDKMAN!) instead of a jar.
+   */
+  direct: boolean;
+  /** Where it was found, for the log. */
+  source: string;
+}
+
+const FORMAT_TIMEOUT_MS = 30000;
+const GRADLE_CACHE = path.join(process.env.GRADLE_USER_HOME ?? path.join(os.homedir(), ".gradle"), "caches", "modules-2", "files-2.1");
+
+/**
+ * Document and range formatting with a locally installed ktfmt or ktlint (the
+ * server doesn't format). The tool runs on the whole document with the
+ * extension's Java runtime (a `ktlint` from the PATH runs as is); its output is diffed against the document and
+ * applied as line edits, keeping only those touching the requested ranges.
+ * Format on save goes through the same providers: the extension defaults
+ * `editor.formatOnSave` and `editor.formatOnSaveMode: "modifications"` for
+ * Kotlin, so VS Code asks for the ranges changed since the last commit.
+ */
+export class ExternalFormatter implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+  /** Located formatter per workspace folder (or "" outside folders); null when none was found. */
+  private readonly located = new Map<string, Formatter | null>();
+  private notFoundShown = false;
+
+  constructor(
+    private readonly getJavaPath: () => string,
+    private readonly outputChannel: vscode.OutputChannel
+  ) {}
+
+  /** Forget located formatters, e.g. after the format settings changed. */
+  reset(): void {
+    this.located.clear();
+    this.notFoundShown = false;
+  }
+
+  provideDocumentFormattingEdits(
+    document: vscode.TextDocument,
+    _options: vscode.FormattingOptions,
+    token: vscode.CancellationToken
+  ): Promise<vscode.TextEdit[]> {
+    return this.format(document, undefined, token);
+  }
+
+  provideDocumentRangeFormattingEdits(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    _options: vscode.FormattingOptions,
+    token: vscode.CancellationToken
+  ): Promise<vscode.TextEdit[]> {
+    return this.format(document, [toLineRange(range)], token);
+  }
+
+  /** Several ranges with a single formatter run, e.g. the modified ranges on save. */
+  provideDocumentRangesFormattingEdits(
+    document: vscode.TextDocument,
+    ranges: vscode.Range[],
+    _options: vscode.FormattingOptions,
+    token: vscode.CancellationToken
+  ): Promise<vscode.TextEdit[]> {
+    return this.format(document, ranges.map(toLineRange), token);
+  }
+
+  private async format(
+    document: vscode.TextDocument,
+    lines: LineRanges | undefined,
+    token: vscode.CancellationToken
+  ): Promise<vscode.TextEdit[]> {
+    const formatter = this.locate(document.uri);
+    if (!formatter) {
+      this.showNotFound();
+      return [];
+    }
+    let formatted: string;
+    try {
+      formatted = await this.run(formatter, document, token);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      this.outputChannel.appendLine(`[Format] ${formatter.tool} failed on ${document.uri.fsPath}: ${msg}`);
+      if (!token.isCancellationRequested) {
+        vscode.window.showWarningMessage(`Kotlin Review: ${formatter.tool} failed: ${firstLine(msg)}`);
+      }
+      return [];
+    }
+    if (token.isCancellationRequested) return [];
+
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const hunks = diffLines(document.getText().split(/\r?\n/), formatted.split(/\r?\n/));
+    return hunks.filter((hunk) => !lines || touches(hunk, lines)).map((hunk) => toTextEdit(document, hunk, eol));
+  }
+
+  private run(formatter: Formatter, document: vscode.TextDocument, token: vscode.CancellationToken): Promise<string> {
+    const toolArgs = formatter.tool === "ktfmt"
+      ? [...ktfmtStyleArgs(), "-"]
+      : ["--format", "--stdin", `--stdin-path=${document.uri.fsPath}`];
+    const [command, args] = formatter.direct
+      ? [formatter.file, toolArgs]
+      : [this.getJavaPath(), ["-jar", formatter.file, ...toolArgs]];
+    const cwd = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath ?? path.dirname(document.uri.fsPath);
+    return new Promise<string>((resolve, reject) => {
+      const proc = cp.execFile(
+        command,
+        args,
+        { cwd, timeout: FORMAT_TIMEOUT_MS, maxBuffer: 64 * 1024 * 1024 },
+        (err, stdout, stderr) => {
+          // ktlint exits with 1 when violations remain that it can't fix; its output is still formatted
+          const unfixable = formatter.tool === "ktlint" && (err as cp.ExecException | null)?.code === 1;
+          if (err && !(unfixable && stdout)) reject(new Error(stderr.trim() || err.message));
+          else if (!stdout && document.getText()) reject(new Error(stderr.trim() || "no output"));
+          else resolve(stdout);
+        }
+      );
+      token.onCancellationRequested(() => proc.kill());
+      proc.stdin?.end(document.getText());
+    });
+  }
+
+  private locate(uri: vscode.Uri): Formatter | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const key = folder?.uri.toString() ?? "";
+    if (!this.located.has(key)) {
+      const formatter = locateFormatter(getFormatTool(), folder?.uri.fsPath);
+      this.outputChannel.appendLine(
+        formatter
+          ? `[Format] Using ${formatter.tool} ${formatter.file} (${formatter.source})`
+          : "[Format] No ktfmt or ktlint found"
+      );
+      this.located.set(key, formatter ?? null);
+    }
+    return this.located.get(key) ?? undefined;
+  }
+
+  private async showNotFound(): Promise<void> {
+    if (this.notFoundShown) return;
+    this.notFoundShown = true;
+    const choice = await vscode.window.showInformationMessage(
+      "Kotlin Review: no ktfmt or ktlint found. Set kotlinReview.format.ktfmtPath or kotlinReview.format.ktlintPath.",
+      "Open Settings"
+    );
+    if (choice === "Open Settings") {
+      await vscode.commands.executeCommand("workbench.action.openSettings", "kotlinReview.format");
+    }
+  }
+}
+
+/**
+ * The formatter for a workspace folder. "auto" prefers a configured path, then
+ * ktlint if the folder's `.editorconfig` has `ktlint_` properties, then ktfmt;
+ * tools are looked up in the settings, on the PATH (ktlint) and in the Gradle cache.
+ */
+function locateFormatter(tool: FormatTool, folder: string | undefined): Formatter | undefined {
+  if (tool === "ktfmt") return findKtfmt();
+  if (tool === "ktlint") return findKtlint();
+  if (getKtfmtPath()) return findKtfmt();
+  if (getKtlintPath()) return findKtlint();
+  return usesKtlint(folder) ? findKtlint() ?? findKtfmt() : findKtfmt() ?? findKtlint();
+}
+
+function findKtfmt(): Formatter | undefined {
+  const configured = getKtfmtPath();
+  if (configured) return fs.existsSync(configured) ? { tool: "ktfmt", file: configured, direct: false, source: "kotlinReview.format.ktfmtPath" } : undefined;
+  const cached = newestInGradleCache("com.facebook", "ktfmt", (version) => `ktfmt-${version}-jar-with-dependencies.jar`);
+  return cached ? { tool: "ktfmt", file: cached, direct: false, source: "Gradle cache" } : undefined;
+}
+
+function findKtlint(): Formatter | undefined {
+  const configured = getKtlintPath();
+  if (configured) return fs.existsSync(configured) ? { tool: "ktlint", file: configured, direct: false, source: "kotlinReview.format.ktlintPath" } : undefined;
+  const onPath = findOnPath("ktlint");
+  if (onPath) return { tool: "ktlint", file: onPath, direct: true, source: "PATH" };
+  const cached =
+    newestInGradleCache("com.pinterest.ktlint", "ktlint-cli", (version) => `ktlint-cli-${version}-all.jar`) ??
+    newestInGradleCache("com.pinterest", "ktlint", (version) => `ktlint-${version}-all.jar`);
+  return cached ? { tool: "ktlint", file: cached, direct: false, source: "Gradle cache" } : undefined;
+}
+
+/** True if the folder's `.editorconfig` configures ktlint (`ktlint_code_style`, `ktlint_standard_*`, ...). */
+function usesKtlint(folder: string | undefined): boolean {
+  if (!folder) return false;
+  try {
+    return /^\s*ktlint_/m.test(fs.readFileSync(path.join(folder, ".editorconfig"), "utf8"));
+  } catch {
+    return false;
+  }
+}
+
+/** files-2.1/<group>/<artifact>/<version>/<sha1>/<file>, newest version first. */
+function newestInGradleCache(group: string, artifact: string, fileName: (version: string) => string): string | undefined {
+  const artifactDir = path.join(GRADLE_CACHE, group, artifact);
+  let versions: string[];
+  try {
+    versions = fs.readdirSync(artifactDir);
+  } catch {
+    return undefined;
+  }
+  for (const version of versions.sort(compareVersions).reverse()) {
+    const versionDir = path.join(artifactDir, version);
+    let hashes: string[];
+    try {
+      hashes = fs.readdirSync(versionDir);
+    } catch {
+      continue;
+    }
+    for (const hash of hashes) {
+      const file = path.join(versionDir, hash, fileName(version));
+      if (fs.existsSync(file)) return file;
+    }
+  }
+  return undefined;
+}
+
+function findOnPath(name: string): string | undefined {
+  for (const dir of (process.env.PATH ?? "").split(path.delimiter).filter(Boolean)) {
+    const file = path.join(dir, name);
+    if (fs.existsSync(file) && fs.statSync(file).isFile()) return file;
+  }
+  return undefined;
+}
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split(/[.-]/).map((part) => parseInt(part, 10) || 0);
+  const pb = b.split(/[.-]/).map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function ktfmtStyleArgs(): string[] {
+  const style = getKtfmtStyle();
+  return style === "google" ? ["--google-style"] : style === "kotlinlang" ? ["--kotlinlang-style"] : [];
+}
+
+/** Lines a range covers; a selection ending at the start of a line doesn't include that line. */
+function toLineRange(range: vscode.Range): [number, number] {
+  const endLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+  return [range.start.line, endLine];
+}
+
+/** Whether a hunk replaces or inserts next to one of the lines; insertions count for the line they precede. */
+function touches(hunk: LineHunk, lines: LineRanges): boolean {
+  const first = hunk.start;
+  const last = Math.max(hunk.end - 1, hunk.start);
+  return lines.some(([from, to]) => first <= to && last >= from);
+}
+
+function toTextEdit(document: vscode.TextDocument, hunk: LineHunk, eol: string): vscode.TextEdit {
+  const lineCount = document.lineCount;
+  const documentEnd = document.lineAt(lineCount - 1).range.end;
+  if (hunk.end < lineCount) {
+    const range = new vscode.Range(hunk.start, 0, hunk.end, 0);
+    return vscode.TextEdit.replace(range, hunk.lines.map((line) => line + eol).join(""));
+  }
+  // The hunk reaches the last line, which has no line break of its own
+  if (hunk.start === lineCount) {
+    return vscode.TextEdit.insert(documentEnd, eol + hunk.lines.join(eol));
+  }
+  if (hunk.lines.length > 0) {
+    return vscode.TextEdit.replace(new vscode.Range(hunk.start, 0, documentEnd.line, documentEnd.character), hunk.lines.join(eol));
+  }
+  const start = hunk.start > 0 ? document.lineAt(hunk.start - 1).range.end : new vscode.Position(0, 0);
+  return vscode.TextEdit.delete(new vscode.Range(start, documentEnd));
+}
+
+function firstLine(text: string): string {
+  return text.split(/\r?\n/)[0];
+}
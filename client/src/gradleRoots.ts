@@ -0,0 +1,41 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+const WRAPPER = process.platform === "win32" ? "gradlew.bat" : "gradlew";
+
+/**
+ * Nearest directory at or above `fsPath` that has a Gradle wrapper, without
+ * leaving the workspace folder that contains it.
+ */
+export function findGradleRoot(fsPath: string): string | undefined {
+  const boundary = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath))?.uri.fsPath;
+  let dir = fsPath;
+  for (;;) {
+    if (fs.existsSync(path.join(dir, WRAPPER))) return dir;
+    const parent = path.dirname(dir);
+    if (dir === boundary || parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Gradle root for commands without an explicit project: the one containing
+ * the active file, else the first workspace folder with a wrapper, else the
+ * first workspace folder.
+ */
+export function activeGradleRoot(): string | undefined {
+  const editor = vscode.window.activeTextEditor;
+  if (editor?.document.uri.scheme === "file") {
+    const root = findGradleRoot(editor.document.uri.fsPath);
+    if (root) return root;
+  }
+  return gradleFolders()[0]?.uri.fsPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+}
+
+/** Workspace folders with a Gradle wrapper at their root. */
+export function gradleFolders(): vscode.WorkspaceFolder[] {
+  return (vscode.workspace.workspaceFolders ?? []).filter((folder) =>
+    fs.existsSync(path.join(folder.uri.fsPath, WRAPPER))
+  );
+}
@@ -0,0 +1,264 @@
+import * as vscode from "vscode";
+import * as cp from "child_process";
+
+export interface GradleRunOptions {
+  cwd: string;
+  args: string[];
+  outputChannel: vscode.OutputChannel;
+  /** Prefix for lines written to the output channel, e.g. "[Codegen]". */
+  logPrefix: string;
+  token?: vscode.CancellationToken;
+  /** Called with the Gradle path of each task as it starts (`> Task :app:kspDebugKotlin`). */
+  onTask?: (taskPath: string) => void;
+  /** Called with every non-empty output line, e.g. to echo it to a task terminal. */
+  onOutput?: (line: string) => void;
+  /** Cleared when the run starts and filled with its compiler problems when it ends. */
+  diagnostics?: vscode.DiagnosticCollection;
+}
+
+export interface GradleRunResult {
+  /** Exit code, or null if the process was killed. */
+  code: number | null;
+  cancelled: boolean;
+  /** Compiler errors and warnings from the run, keyed by file URI. */
+  problems: Map<string, vscode.Diagnostic[]>;
+  /** Set when Gradle couldn't be started at all. */
+  error?: Error;
+}
+
+const GRADLEW = process.platform === "win32" ? "gradlew.bat" : "./gradlew";
+const running = new Set<cp.ChildProcess>();
+
+/** Resolves to the reason Gradle may not run in a root, or undefined if it may. */
+export type GradleGuard = (cwd: string) => Promise<string | undefined>;
+let guard: GradleGuard | undefined;
+
+/** Check every run against `check` first (workspace trust, wrapper verification). */
+export function setGradleGuard(check: GradleGuard): void {
+  guard = check;
+}
+
+/**
+ * Run `./gradlew` in `cwd`, streaming its output to the output channel and
+ * collecting compiler problems. Cancelling the token kills the whole process
+ * tree (the wrapper and the Gradle client JVM). A run refused by
+ * the guard resolves with `error` set.
+ */
+export async function runGradle(options: GradleRunOptions): Promise<GradleRunResult> {
+  const { cwd, args, outputChannel, logPrefix, token, onTask, onOutput, diagnostics } = options;
+  const problems = new Map<string, vscode.Diagnostic[]>();
+  let cancelled = false;
+
+  const refused = await guard?.(cwd);
+  if (refused) {
+    outputChannel.appendLine(`${logPrefix} ${refused}`);
+    return { code: null, cancelled, problems, error: new Error(refused) };
+  }
+  diagnostics?.clear();
+
+  return new Promise<GradleRunResult>((resolve) => {
+    const fullArgs = [...args, "--console=plain"];
+    outputChannel.appendLine(`${logPrefix} Running: ${GRADLEW} ${fullArgs.join(" ")} in ${cwd}`);
+    const proc = spawnGradle(cwd, fullArgs);
+
+    const onLine = (line: string) => {
+      if (!line.trim()) return;
+      outputChannel.appendLine(`${logPrefix} ${line}`);
+      onOutput?.(line);
+      const task = line.match(/^> Task (:\S+)/);
+      if (task) onTask?.(task[1]);
+      const problem = parseCompilerProblem(line);
+      if (problem) {
+        const list = problems.get(problem.uri) ?? [];
+        if (!list.some((d) => d.message === problem.diagnostic.message && d.range.isEqual(problem.diagnostic.range))) {
+          list.push(problem.diagnostic);
+        }
+        problems.set(problem.uri, list);
+      }
+    };
+    const stdout = new LineSplitter(onLine);
+    const stderr = new LineSplitter(onLine);
+    proc.stdout?.on("data", (data: Buffer) => stdout.append(data.toString()));
+    proc.stderr?.on("data", (data: Buffer) => stderr.append(data.toString()));
+
+    const cancellation = token?.onCancellationRequested(() => {
+      cancelled = true;
+      outputChannel.appendLine(`${logPrefix} Cancelling...`);
+      killProcessTree(proc);
+    });
+
+    const finish = (code: number | null, error?: Error) => {
+      if (!running.delete(proc)) return; // "error" and "close" can both fire
+      cancellation?.dispose();
+      stdout.flush();
+      stderr.flush();
+      diagnostics?.set([...problems].map(([uri, list]) => [vscode.Uri.parse(uri), list]));
+      resolve({ code, cancelled, problems, error });
+    };
+    proc.on("close", (code) => finish(code));
+    proc.on("error", (err) => finish(null, err));
+  });
+}
+
+/**
+ * Run `./gradlew` quietly and return its stdout. Rejects on a non-zero exit,
+ * with the last lines of stderr in the message, or on cancellation.
+ */
+export async function captureGradle(cwd: string, args: string[], token?: vscode.CancellationToken): Promise<string> {
+  const refused = await guard?.(cwd);
+  if (refused) throw new Error(refused);
+
+  return new Promise<string>((resolve, reject) => {
+    const proc = spawnGradle(cwd, [...args, "--console=plain", "-q"]);
+    let stdout = "";
+    let stderr = "";
+    proc.stdout?.on("data", (data: Buffer) => (stdout += data.toString()));
+    proc.stderr?.on("data", (data: Buffer) => (stderr += data.toString()));
+
+    const cancellation = token?.onCancellationRequested(() => killProcessTree(proc));
+    proc.on("close", (code) => {
+      running.delete(proc);
+      cancellation?.dispose();
+      if (token?.isCancellationRequested) {
+        reject(new vscode.CancellationError());
+      } else if (code === 0) {
+        resolve(stdout);
+      } else {
+        const details = stderr.trim().split(/\r?\n/).slice(-5).join("\n");
+        reject(new Error(`${GRADLEW} ${args.join(" ")} failed with exit code ${code}${details ? `:\n${details}` : ""}`));
+      }
+    });
+    proc.on("error", (err) => {
+      running.delete(proc);
+      cancellation?.dispose();
+      reject(err);
+    });
+  });
+}
+
+/**
+ * Start the wrapper without a shell so `args` reach Gradle verbatim. Windows can only
+ * run `gradlew.bat` through cmd.exe, so there each argument is quoted and its
+ * cmd metacharacters escaped.
+ */
+function spawnGradle(cwd: string, args: string[]): cp.ChildProcess {
+  const options: cp.SpawnOptions = {
+    cwd,
+    // Own process group on POSIX so the whole tree can be killed at once
+    detached: process.platform !== "win32",
+    stdio: ["ignore", "pipe", "pipe"],
+  };
+  const proc =
+    process.platform === "win32"
+      ? cp.spawn(
+          process.env.ComSpec || "cmd.exe",
+          ["/d", "/s", "/c", `"${[GRADLEW, ...args.map(quoteCmdArgument)].join(" ")}"`],
+          { ...options, windowsVerbatimArguments: true }
+        )
+      : cp.spawn(GRADLEW, args, options);
+  running.add(proc);
+  return proc;
+}
+
+const CMD_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Quote `arg` for a batch file run by `cmd.exe /s /c`: backslash-escape quotes
+ * as the C runtime expects, then caret-escape cmd metacharacters twice, once
+ * for cmd.exe and once more for the batch file it runs.
+ */
+function quoteCmdArgument(arg: string): string {
+  const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, "$1$1")}"`;
+  return quoted.replace(CMD_META_CHARS, "^$1").replace(CMD_META_CHARS, "^$1");
+}
+
+/** Kill every Gradle process started by `runGradle`, e.g. on deactivate. */
+export function killAllGradleProcesses(): void {
+  for (const proc of running) killProcessTree(proc);
+}
+
+function killProcessTree(proc: cp.ChildProcess): void {
+  if (proc.pid === undefined || proc.exitCode !== null) return;
+  try {
+    if (process.platform === "win32") {
+      cp.spawn("taskkill", ["/pid", String(proc.pid), "/T", "/F"], { stdio: "ignore" });
+    } else {
+      process.kill(-proc.pid, "SIGTERM");
+    }
+  } catch {
+    proc.kill();
+  }
+}
+
+interface CompilerProblem {
+  uri: string;
+  diagnostic: vscode.Diagnostic;
+}
+
+/**
+ * Parse a Kotlin or javac problem line:
+ * - `e: file:///path/Foo.kt:12:5 message` (Kotlin 1.8+)
+ * - `e: /path/Foo.kt: (12, 5): message` (older Kotlin)
+ * - `/path/Foo.java:12: error: message` (javac, kapt)
+ */
+export function parseCompilerProblem(line: string): CompilerProblem | undefined {
+  let severity: string;
+  let file: string;
+  let lineNo: number;
+  let column: number;
+  let message: string;
+
+  let match = line.match(/^([ew]): (file:\S+?):(\d+):(\d+) (.*)$/);
+  if (match) {
+    [, severity, file] = match;
+    lineNo = parseInt(match[3], 10);
+    column = parseInt(match[4], 10);
+    message = match[5];
+  } else if ((match = line.match(/^([ew]): (.+?\.kts?): \((\d+), (\d+)\): (.*)$/))) {
+    [, severity, file] = match;
+    lineNo = parseInt(match[3], 10);
+    column = parseInt(match[4], 10);
+    message = match[5];
+  } else if ((match = line.match(/^(?:[ew]: )?(.+?\.java):(\d+): (error|warning): (.*)$/))) {
+    file = match[1];
+    lineNo = parseInt(match[2], 10);
+    column = 1;
+    severity = match[3] === "error" ? "e" : "w";
+    message = match[4];
+  } else {
+    return undefined;
+  }
+
+  let uri: vscode.Uri;
+  try {
+    uri = file.startsWith("file:") ? vscode.Uri.parse(file) : vscode.Uri.file(file);
+  } catch {
+    return undefined;
+  }
+  const position = new vscode.Position(Math.max(0, lineNo - 1), Math.max(0, column - 1));
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(position, position),
+    message.trim(),
+    severity === "e" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+  );
+  diagnostic.source = "gradle";
+  return { uri: uri.toString(), diagnostic };
+}
+
+/** Splits streamed output into lines, holding back a trailing partial line. */
+class LineSplitter {
+  private partial = "";
+
+  constructor(private readonly onLine: (line: string) => void) {}
+
+  append(chunk: string): void {
+    const parts = (this.partial + chunk).split(/\r?\n/);
+    this.partial = parts.pop() ?? "";
+    for (const line of parts) this.onLine(line);
+  }
+
+  flush(): void {
+    if (this.partial) this.onLine(this.partial);
+    this.partial = "";
+  }
+}
@@ -0,0 +1,204 @@
+import * as vscode from "vscode";
+import { captureGradle, runGradle } from "./gradleRunner";
+import { gradleFolders } from "./gradleRoots";
+
+export const GRADLE_TASK_TYPE = "kotlinReviewGradle";
+
+export interface GradleTaskDefinition extends vscode.TaskDefinition {
+  /** Task path, e.g. ":app:testDebugUnitTest", or a name run in every project, e.g. "detekt". */
+  task: string;
+  args?: string[];
+}
+
+export interface GradleTaskInfo {
+  path: string;
+  /** Heading the task is listed under in `gradlew tasks`, e.g. "Verification tasks". */
+  group: string;
+  description?: string;
+}
+
+const CACHE_KEY_PREFIX = "kotlinReview.gradleTasks:";
+
+/** A running `gradlew tasks --all`, shared by every caller waiting for it. */
+interface TaskDiscovery {
+  tasks: Promise<GradleTaskInfo[]>;
+  cancellation: vscode.CancellationTokenSource;
+  /** Callers still waiting; callers without a cancellation token keep waiting until it ends. */
+  waiters: number;
+}
+
+/**
+ * Provides Gradle tasks of each workspace folder that has a Gradle wrapper.
+ * Tasks are discovered with `gradlew tasks --all`, which is slow, so the
+ * result is cached in workspace state until a build file changes.
+ */
+export class GradleTaskProvider implements vscode.TaskProvider {
+  private readonly pending = new Map<string, TaskDiscovery>();
+
+  constructor(
+    private readonly outputChannel: vscode.OutputChannel,
+    private readonly diagnostics: vscode.DiagnosticCollection,
+    private readonly workspaceState: vscode.Memento
+  ) {}
+
+  async provideTasks(token: vscode.CancellationToken): Promise<vscode.Task[]> {
+    const tasks: vscode.Task[] = [];
+    for (const folder of gradleFolders()) {
+      try {
+        for (const info of await this.getTasks(folder, token)) {
+          tasks.push(this.createTask({ type: GRADLE_TASK_TYPE, task: info.path }, folder, info.group));
+        }
+      } catch (e: unknown) {
+        if (e instanceof vscode.CancellationError) break;
+        const msg = e instanceof Error ? e.message : String(e);
+        this.outputChannel.appendLine(`[Gradle] Failed to list tasks in ${folder.uri.fsPath}: ${msg}`);
+      }
+    }
+    return tasks;
+  }
+
+  resolveTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as GradleTaskDefinition;
+    const folder = task.scope;
+    if (!definition.task || !folder || typeof folder === "number") return undefined;
+    return this.createTask(definition, folder);
+  }
+
+  /**
+   * Tasks of `folder`, from the cache or by running `gradlew tasks --all`.
+   * Concurrent callers share one discovery, which has its own cancellation:
+   * a caller cancelling only stops its own wait, and the Gradle run is killed
+   * once every caller has cancelled.
+   */
+  getTasks(folder: vscode.WorkspaceFolder, token?: vscode.CancellationToken): Promise<GradleTaskInfo[]> {
+    const root = folder.uri.fsPath;
+    const cached = this.workspaceState.get<GradleTaskInfo[]>(CACHE_KEY_PREFIX + root);
+    if (cached) return Promise.resolve(cached);
+    if (token?.isCancellationRequested) return Promise.reject(new vscode.CancellationError());
+
+    let discovery = this.pending.get(root);
+    if (!discovery) {
+      this.outputChannel.appendLine(`[Gradle] Listing tasks in ${root}...`);
+      const cancellation = new vscode.CancellationTokenSource();
+      const tasks = captureGradle(root, ["tasks", "--all"], cancellation.token)
+        .then(async (output) => {
+          const tasks = parseTasksOutput(output);
+          this.outputChannel.appendLine(`[Gradle] Found ${tasks.length} tasks in ${root}`);
+          await this.workspaceState.update(CACHE_KEY_PREFIX + root, tasks);
+          return tasks;
+        })
+        .finally(() => {
+          this.pending.delete(root);
+          cancellation.dispose();
+        });
+      discovery = { tasks, cancellation, waiters: 0 };
+      this.pending.set(root, discovery);
+    }
+    return this.wait(discovery, token);
+  }
+
+  private wait(discovery: TaskDiscovery, token: vscode.CancellationToken | undefined): Promise<GradleTaskInfo[]> {
+    discovery.waiters++;
+    if (!token) return discovery.tasks;
+    return new Promise<GradleTaskInfo[]>((resolve, reject) => {
+      const listener = token.onCancellationRequested(() => {
+        listener.dispose();
+        if (--discovery.waiters === 0) discovery.cancellation.cancel();
+        reject(new vscode.CancellationError());
+      });
+      discovery.tasks.then(resolve, reject).finally(() => listener.dispose());
+    });
+  }
+
+  /** Forget discovered tasks, e.g. after a build file changed. */
+  async invalidate(): Promise<void> {
+    for (const key of this.workspaceState.keys()) {
+      if (key.startsWith(CACHE_KEY_PREFIX)) await this.workspaceState.update(key, undefined);
+    }
+  }
+
+  createTask(definition: GradleTaskDefinition, folder: vscode.WorkspaceFolder, group?: string): vscode.Task {
+    const args = [definition.task, ...(definition.args ?? [])];
+    const task = new vscode.Task(
+      definition,
+      folder,
+      definition.task,
+      "Kotlin Review",
+      new vscode.CustomExecution(async () => new GradleTaskTerminal(
+        folder.uri.fsPath, args, this.outputChannel, this.diagnostics
+      ))
+    );
+    if (group === "Build tasks") task.group = vscode.TaskGroup.Build;
+    else if (group === "Verification tasks") task.group = vscode.TaskGroup.Test;
+    return task;
+  }
+}
+
+/**
+ * Parse `gradlew tasks --all` output. Tasks are listed under underlined group
+ * headings; subproject tasks are prefixed with their project path
+ * (`app:test`), root tasks are not. Rules (`Pattern: clean<TaskName>`) are skipped.
+ */
+export function parseTasksOutput(output: string): GradleTaskInfo[] {
+  const lines = output.split(/\r?\n/);
+  const tasks: GradleTaskInfo[] = [];
+  const seen = new Set<string>();
+  let group: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (/^-+$/.test(line)) continue;
+    if (i + 1 < lines.length && /^-+$/.test(lines[i + 1].trim())) {
+      group = line.startsWith("Tasks runnable from") || line === "Rules" ? undefined : line;
+      continue;
+    }
+    if (!group || !line) continue;
+
+    const match = line.match(/^([\w.:-]+)(?: - (.*))?$/);
+    if (!match) continue;
+    const name = match[1];
+    const taskPath = name.includes(":") ? `:${name.replace(/^:/, "")}` : name;
+    if (seen.has(taskPath)) continue;
+    seen.add(taskPath);
+    tasks.push({ path: taskPath, group, description: match[2] });
+  }
+  return tasks;
+}
+
+/** Runs a Gradle task in the terminal panel, mirroring output to the output channel. */
+class GradleTaskTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number>();
+  private readonly cancellation = new vscode.CancellationTokenSource();
+
+  readonly onDidWrite = this.writeEmitter.event;
+  readonly onDidClose = this.closeEmitter.event;
+
+  constructor(
+    private readonly cwd: string,
+    private readonly args: string[],
+    private readonly outputChannel: vscode.OutputChannel,
+    private readonly diagnostics: vscode.DiagnosticCollection
+  ) {}
+
+  async open(): Promise<void> {
+    this.writeEmitter.fire(`> gradlew ${this.args.join(" ")}\r\n\r\n`);
+    const result = await runGradle({
+      cwd: this.cwd,
+      args: this.args,
+      outputChannel: this.outputChannel,
+      logPrefix: "[Gradle]",
+      token: this.cancellation.token,
+      onOutput: (line) => this.writeEmitter.fire(`${line}\r\n`),
+      diagnostics: this.diagnostics,
+    });
+    if (result.error) {
+      this.writeEmitter.fire(`Failed to run Gradle: ${result.error.message}\r\n`);
+    }
+    this.closeEmitter.fire(result.code ?? 1);
+  }
+
+  close(): void {
+    this.cancellation.cancel();
+  }
+}
@@ -0,0 +1,85 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { KNOWN_WRAPPER_CHECKSUMS } from "./wrapperChecksums";
+
+/** Checksums of unknown wrappers the user chose to always trust. */
+const TRUSTED_WRAPPERS_KEY = "kotlinReview.trustedWrapperChecksums";
+
+/**
+ * Decides whether `./gradlew` may run in a Gradle root. Running the wrapper
+ * executes the project's build logic, so it is refused in Restricted Mode, and
+ * a `gradle-wrapper.jar` that is missing or isn't a known Gradle release needs
+ * confirmation. The `gradlew` script itself can't be verified.
+ */
+export class GradleTrust {
+  /**
+   * Answers for unknown wrappers this session, by checksum (or by root when the
+   * jar is missing); pending while the prompt is open.
+   */
+  private readonly sessionAnswers = new Map<string, Promise<boolean>>();
+
+  constructor(
+    private readonly globalState: vscode.Memento,
+    private readonly outputChannel: vscode.OutputChannel
+  ) {}
+
+  /** Resolves to the reason Gradle can't run in `root`, or undefined if it may. */
+  async check(root: string): Promise<string | undefined> {
+    if (!vscode.workspace.isTrusted) {
+      return "Gradle is not run in Restricted Mode. Trust the workspace to enable it.";
+    }
+
+    const jar = path.join(root, "gradle", "wrapper", "gradle-wrapper.jar");
+    let checksum: string | undefined;
+    try {
+      checksum = crypto.createHash("sha256").update(await fs.promises.readFile(jar)).digest("hex");
+    } catch {
+      // No jar to verify: gradlew may do anything, so treat it like an unknown wrapper
+    }
+    if (checksum !== undefined) {
+      if (KNOWN_WRAPPER_CHECKSUMS.has(checksum)) return undefined;
+      if (this.globalState.get<string[]>(TRUSTED_WRAPPERS_KEY, []).includes(checksum)) return undefined;
+    }
+
+    const key = checksum ?? `missing:${root}`;
+    let answer = this.sessionAnswers.get(key);
+    if (!answer) {
+      this.outputChannel.appendLine(
+        checksum ? `[Gradle] Unknown wrapper ${jar} (SHA-256 ${checksum})` : `[Gradle] Missing or unreadable wrapper ${jar}`
+      );
+      answer = this.confirm(root, checksum);
+      this.sessionAnswers.set(key, answer);
+    }
+    if (await answer) return undefined;
+    return checksum
+      ? `The Gradle wrapper in ${root} is not a known Gradle release and was not run.`
+      : `The Gradle wrapper in ${root} has no gradle-wrapper.jar and was not run.`;
+  }
+
+  /** Asks before running an unverified wrapper; `checksum` is undefined when the jar is missing. */
+  private async confirm(root: string, checksum: string | undefined): Promise<boolean> {
+    const name = path.basename(root);
+    const message = checksum
+      ? `Kotlin Review: the Gradle wrapper in ${name} doesn't match any known Gradle release. Running it executes an unverified jar.`
+      : `Kotlin Review: the Gradle wrapper in ${name} has no gradle/wrapper/gradle-wrapper.jar, so it can't be verified.`;
+    const jar = checksum ? `gradle/wrapper/gradle-wrapper.jar\nSHA-256: ${checksum}` : "gradle/wrapper/gradle-wrapper.jar is missing or unreadable.";
+    const choice = await vscode.window.showWarningMessage(
+      message,
+      {
+        modal: true,
+        detail:
+          `${jar}\n\nThe gradlew script itself is not verified either and runs as is.` +
+          "\n\nOnly run it if you trust where this checkout came from.",
+      },
+      // A missing jar has no checksum to remember
+      ...(checksum ? ["Allow This Session", "Always Trust This Wrapper"] : ["Allow This Session"])
+    );
+    if (checksum && choice === "Always Trust This Wrapper") {
+      const trusted = this.globalState.get<string[]>(TRUSTED_WRAPPERS_KEY, []);
+      await this.globalState.update(TRUSTED_WRAPPERS_KEY, [...trusted, checksum]);
+    }
+    return choice !== undefined;
+  }
+}
@@ -0,0 +1,114 @@
+import * as vscode from "vscode";
+import * as cp from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+
+/** How long to collect stderr after SIGQUIT when `jcmd` isn't available. */
+const SIGQUIT_CAPTURE_MS = 2000;
+
+export interface HangWatchdogOptions {
+  /** Seconds a request may stay unanswered; 0 disables the watchdog. */
+  getTimeoutSeconds: () => number;
+  getServerProcess: () => cp.ChildProcess | undefined;
+  getJavaPath: () => string;
+  logDir: string;
+  outputChannel: vscode.OutputChannel;
+}
+
+/**
+ * Notices a server that stopped answering. Every request passes through
+ * [track] (client middleware); when one is still outstanding after the
+ * deadline, a JVM thread dump is written to the log directory and the user is
+ * offered a restart. Reported once per server process.
+ */
+export class HangWatchdog {
+  private reportedPid: number | undefined;
+  private reportedWithoutProcess = false;
+
+  constructor(private readonly options: HangWatchdogOptions) {}
+
+  track<R>(method: string, send: () => Promise<R>): Promise<R> {
+    const timeoutSeconds = this.options.getTimeoutSeconds();
+    if (timeoutSeconds <= 0) return send();
+    const started = Date.now();
+    const timer = setTimeout(() => this.onHang(method, Date.now() - started), timeoutSeconds * 1000);
+    return send().finally(() => clearTimeout(timer));
+  }
+
+  /** Allow a new report, e.g. after the server was restarted. */
+  reset(): void {
+    this.reportedPid = undefined;
+    this.reportedWithoutProcess = false;
+  }
+
+  private async onHang(method: string, elapsedMs: number): Promise<void> {
+    const proc = this.options.getServerProcess();
+    const pid = proc?.pid;
+    if (pid !== undefined ? this.reportedPid === pid : this.reportedWithoutProcess) return;
+    if (pid !== undefined) this.reportedPid = pid;
+    else this.reportedWithoutProcess = true;
+
+    const seconds = Math.round(elapsedMs / 1000);
+    const { outputChannel } = this.options;
+    outputChannel.appendLine(`[Watchdog] No response to ${method} after ${seconds}s`);
+
+    let dumpFile: string | undefined;
+    if (proc && pid !== undefined) {
+      try {
+        const dump = await this.threadDump(proc, pid);
+        dumpFile = path.join(this.options.logDir, `thread-dump-${new Date().toISOString().replace(/[:.]/g, "-")}.txt`);
+        await fs.promises.mkdir(this.options.logDir, { recursive: true });
+        await fs.promises.writeFile(dumpFile, `Stuck request: ${method} (${seconds}s)\n\n${dump}`);
+        outputChannel.appendLine(`[Watchdog] Thread dump saved to ${dumpFile}`);
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        outputChannel.appendLine(`[Watchdog] Thread dump failed: ${msg}`);
+      }
+    }
+
+    const actions = dumpFile ? ["Restart Server", "Open Thread Dump"] : ["Restart Server"];
+    const choice = await vscode.window.showWarningMessage(
+      `Kotlin Review: the language server hasn't answered ${method} for ${seconds}s.` +
+        (dumpFile ? " A thread dump was saved to the log directory." : ""),
+      ...actions
+    );
+    if (choice === "Restart Server") {
+      await vscode.commands.executeCommand("kotlinReview.restartServer");
+    } else if (choice === "Open Thread Dump" && dumpFile) {
+      await vscode.window.showTextDocument(vscode.Uri.file(dumpFile));
+    }
+  }
+
+  /**
+   * `jcmd <pid> Thread.print` from the server's JDK; failing that (e.g. a JRE),
+   * SIGQUIT, whose dump the JVM writes to stderr (-XX:+DisplayVMOutputToStderr).
+   */
+  private async threadDump(proc: cp.ChildProcess, pid: number): Promise<string> {
+    const jcmd = path.join(path.dirname(this.options.getJavaPath()), process.platform === "win32" ? "jcmd.exe" : "jcmd");
+    try {
+      return await new Promise<string>((resolve, reject) => {
+        cp.execFile(jcmd, [String(pid), "Thread.print"], { timeout: 15000, maxBuffer: 32 * 1024 * 1024 }, (err, stdout, stderr) => {
+          if (err) reject(new Error(stderr.trim() || err.message));
+          else resolve(stdout);
+        });
+      });
+    } catch (e: unknown) {
+      if (process.platform === "win32") throw e;
+      const msg = e instanceof Error ? e.message : String(e);
+      this.options.outputChannel.appendLine(`[Watchdog] jcmd failed (${msg}), sending SIGQUIT`);
+    }
+
+    const stderr = proc.stderr;
+    if (!stderr) throw new Error("server stderr isn't available");
+    return new Promise<string>((resolve) => {
+      let output = "";
+      const onData = (data: Buffer) => (output += data.toString());
+      stderr.on("data", onData);
+      process.kill(pid, "SIGQUIT");
+      setTimeout(() => {
+        stderr.off("data", onData);
+        resolve(output);
+      }, SIGQUIT_CAPTURE_MS);
+    });
+  }
+}
@@ -1,6 +1,7 @@
-import { spawnSync } from "child_process";
+import { execFile } from "child_process";
 import * as path from "path";
 import * as fs from "fs";
+import * as os from "os";
 import { getJavaHome } from "./config";
 
 export interface JavaInfo {
@@ -8,11 +9,22 @@ export interface JavaInfo {
   version: number;
 }
 
-export function findJava(): JavaInfo {
-  const candidates = buildCandidates();
+export interface JavaInstallation extends JavaInfo {
+  home: string;
+  /** Full version string, e.g. "17.0.9". */
+  fullVersion: string;
+  vendor: string | undefined;
+  /** Where the installation was found, e.g. "JAVA_HOME" or "SDKMAN". */
+  source: string;
+}
 
-  for (const javaPath of candidates) {
-    const version = getJavaVersion(javaPath);
+/**
+ * The first usable Java 11+ in priority order. Install directories (and jenv)
+ * are only scanned when the setting, the environment and the PATH don't have one.
+ */
+export async function findJava(): Promise<JavaInfo> {
+  for await (const javaPath of buildCandidates()) {
+    const version = await getJavaVersion(javaPath);
     if (version !== undefined && version >= 11) {
       return { javaPath, version };
     }
@@ -24,76 +36,257 @@ export function findJava(): JavaInfo {
   );
 }
 
-function buildCandidates(): string[] {
-  const candidates: string[] = [];
+/**
+ * Find every distinct JDK/JRE on this machine, in `findJava()` priority order.
+ * Runs `java -version` for each candidate, so only call it on user request.
+ */
+export async function findAllJavas(): Promise<JavaInstallation[]> {
+  const result: JavaInstallation[] = [];
+  const seen = new Set<string>();
+
+  for (const { home, source } of await buildHomeCandidates()) {
+    const javaPath = javaBin(home);
+    if (!fs.existsSync(javaPath)) continue;
+
+    let realPath: string;
+    try {
+      realPath = fs.realpathSync(javaPath);
+    } catch {
+      continue;
+    }
+    if (seen.has(realPath)) continue;
+    seen.add(realPath);
+
+    const output = await getJavaVersionOutput(javaPath);
+    const version = output !== undefined ? parseJavaVersion(output) : undefined;
+    if (version === undefined) continue;
 
+    const release = readReleaseFile(home);
+    result.push({
+      javaPath,
+      home,
+      version,
+      fullVersion: release.JAVA_VERSION ?? parseFullVersion(output!) ?? String(version),
+      vendor: release.IMPLEMENTOR ?? parseVendor(output!),
+      source,
+    });
+  }
+
+  return result;
+}
+
+/** Candidate `java` binaries, produced lazily so that later (slower) sources are only consulted when needed. */
+async function* buildCandidates(): AsyncGenerator<string> {
   // 1. Extension setting
   const settingHome = getJavaHome();
   if (settingHome) {
-    candidates.push(javaBin(settingHome));
+    yield javaBin(settingHome);
   }
 
   // 2. JAVA_HOME
   if (process.env.JAVA_HOME) {
-    candidates.push(javaBin(process.env.JAVA_HOME));
+    yield javaBin(process.env.JAVA_HOME);
   }
 
   // 3. JDK_HOME
   if (process.env.JDK_HOME) {
-    candidates.push(javaBin(process.env.JDK_HOME));
+    yield javaBin(process.env.JDK_HOME);
   }
 
   // 4. macOS: /usr/libexec/java_home
   if (process.platform === "darwin") {
-    const macJavaHome = getMacJavaHome();
+    const macJavaHome = await getMacJavaHome();
     if (macJavaHome) {
-      candidates.push(javaBin(macJavaHome));
+      yield javaBin(macJavaHome);
     }
   }
 
   // 5. PATH
-  candidates.push("java");
+  yield "java";
+
+  // 6. Well-known install locations (SDKMAN, asdf, jenv, IntelliJ, Gradle toolchains, ...)
+  for (const { home } of await scanInstallLocations()) {
+    yield javaBin(home);
+  }
+}
 
+interface HomeCandidate {
+  home: string;
+  source: string;
+}
+
+async function buildHomeCandidates(): Promise<HomeCandidate[]> {
+  const candidates: HomeCandidate[] = [];
+
+  const settingHome = getJavaHome();
+  if (settingHome) candidates.push({ home: settingHome, source: "kotlinReview.java.home" });
+  if (process.env.JAVA_HOME) candidates.push({ home: process.env.JAVA_HOME, source: "JAVA_HOME" });
+  if (process.env.JDK_HOME) candidates.push({ home: process.env.JDK_HOME, source: "JDK_HOME" });
+
+  if (process.platform === "darwin") {
+    const macJavaHome = await getMacJavaHome();
+    if (macJavaHome) candidates.push({ home: macJavaHome, source: "java_home" });
+  }
+
+  const pathHome = findJavaHomeOnPath();
+  if (pathHome) candidates.push({ home: pathHome, source: "PATH" });
+
+  candidates.push(...await scanInstallLocations());
+  return candidates;
+}
+
+/** JDK homes found in the usual install directories of Linux distributions and version managers. */
+async function scanInstallLocations(): Promise<HomeCandidate[]> {
+  const home = os.homedir();
+  const roots: { dir: string; source: string }[] = [
+    { dir: "/usr/lib/jvm", source: "/usr/lib/jvm" },
+    { dir: path.join(home, ".sdkman", "candidates", "java"), source: "SDKMAN" },
+    { dir: path.join(home, ".asdf", "installs", "java"), source: "asdf" },
+    { dir: path.join(home, ".jenv", "versions"), source: "jenv" },
+    { dir: path.join(home, ".jdks"), source: "IntelliJ (~/.jdks)" },
+    { dir: path.join(home, ".gradle", "jdks"), source: "Gradle toolchain" },
+  ];
+  if (process.platform === "darwin") {
+    roots.push({ dir: "/Library/Java/JavaVirtualMachines", source: "/Library/Java" });
+  }
+
+  const candidates: HomeCandidate[] = [];
+  const jenvHome = await getJenvJavaHome();
+  if (jenvHome) candidates.push({ home: jenvHome, source: "jenv" });
+
+  for (const { dir, source } of roots) {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(dir).sort(compareByVersionDescending);
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry === "current" || entry.startsWith(".")) continue;
+      const jdkHome = resolveJdkHome(path.join(dir, entry));
+      if (jdkHome) candidates.push({ home: jdkHome, source });
+    }
+  }
   return candidates;
 }
 
-function getMacJavaHome(): string | undefined {
+/** Accept both plain JDK layouts and macOS bundles (`<jdk>/Contents/Home`). */
+function resolveJdkHome(dir: string): string | undefined {
+  if (fs.existsSync(javaBin(dir))) return dir;
+  const bundleHome = path.join(dir, "Contents", "Home");
+  if (fs.existsSync(javaBin(bundleHome))) return bundleHome;
+  return undefined;
+}
+
+function getJenvJavaHome(): Promise<string | undefined> {
+  return run("jenv", ["javahome"]).then((result) => (result?.code === 0 ? result.stdout.trim() || undefined : undefined));
+}
+
+/**
+ * Order install directory names newest version first by the first number in
+ * them (`jdk-21.0.1`, `java-17-openjdk-amd64`, `zulu-8.jdk`, `java-1.8.0-openjdk`).
+ */
+function compareByVersionDescending(a: string, b: string): number {
+  const va = versionInName(a);
+  const vb = versionInName(b);
+  for (let i = 0; i < Math.max(va.length, vb.length); i++) {
+    const diff = (vb[i] ?? 0) - (va[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return b.localeCompare(a);
+}
+
+function versionInName(name: string): number[] {
+  const parts = name.match(/\d+(?:\.\d+)*/)?.[0].split(".").map((part) => parseInt(part, 10)) ?? [];
+  // Java 8 and earlier use 1.x versioning
+  return parts[0] === 1 && parts.length > 1 ? parts.slice(1) : parts;
+}
+
+/** Resolve the JDK home of the `java` found on PATH (following symlinks such as /usr/bin/java). */
+function findJavaHomeOnPath(): string | undefined {
+  const exe = process.platform === "win32" ? "java.exe" : "java";
+  for (const dir of (process.env.PATH || "").split(path.delimiter)) {
+    if (!dir) continue;
+    const candidate = path.join(dir, exe);
+    try {
+      if (!fs.statSync(candidate).isFile()) continue;
+      return path.dirname(path.dirname(fs.realpathSync(candidate)));
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+/** Parse `<home>/release` (KEY="value" lines) — present in every JDK 9+ image. */
+function readReleaseFile(home: string): Record<string, string> {
+  const result: Record<string, string> = {};
   try {
-    const result = spawnSync("/usr/libexec/java_home", {
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-      timeout: 5000,
-    });
-    const home = (result.stdout || "").trim();
-    return home || undefined;
+    const content = fs.readFileSync(path.join(home, "release"), "utf-8");
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.match(/^(\w+)="?(.*?)"?$/);
+      if (match) result[match[1]] = match[2];
+    }
   } catch {
-    return undefined;
+    // No release file (JDK 8 or unusual layout)
   }
+  return result;
+}
+
+function getMacJavaHome(): Promise<string | undefined> {
+  return run("/usr/libexec/java_home", []).then((result) => result?.stdout.trim() || undefined);
 }
 
 function javaBin(home: string): string {
   return path.join(home, "bin", "java");
 }
 
-function getJavaVersion(javaPath: string): number | undefined {
-  try {
-    // Check the binary exists (unless it's just "java" for PATH lookup)
-    if (javaPath !== "java" && !fs.existsSync(javaPath)) {
-      return undefined;
-    }
-
-    // java -version writes to stderr, so we use spawnSync to capture it
-    const result = spawnSync(javaPath, ["-version"], {
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-      timeout: 5000,
-    });
+async function getJavaVersion(javaPath: string): Promise<number | undefined> {
+  const output = await getJavaVersionOutput(javaPath);
+  return output !== undefined ? parseJavaVersion(output) : undefined;
+}
 
-    const output = (result.stderr || "") + (result.stdout || "");
-    return parseJavaVersion(output);
-  } catch {
+async function getJavaVersionOutput(javaPath: string): Promise<string | undefined> {
+  // Check the binary exists (unless it's just "java" for PATH lookup)
+  if (javaPath !== "java" && !fs.existsSync(javaPath)) {
     return undefined;
   }
+  // java -version writes to stderr
+  const result = await run(javaPath, ["-version"]);
+  return result !== undefined ? result.stderr + result.stdout : undefined;
+}
+
+interface RunResult {
+  /** Exit code, or null if the process was killed (e.g. by the timeout). */
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/** Run a short-lived command; resolves to undefined if it couldn't be started. */
+function run(command: string, args: string[]): Promise<RunResult | undefined> {
+  return new Promise((resolve) => {
+    execFile(command, args, { encoding: "utf-8", timeout: 5000 }, (err, stdout, stderr) => {
+      if (err && typeof err.code === "string") {
+        resolve(undefined); // ENOENT, EACCES, ...
+      } else {
+        resolve({ code: err ? (typeof err.code === "number" ? err.code : null) : 0, stdout, stderr });
+      }
+    });
+  });
+}
+
+function parseFullVersion(output: string): string | undefined {
+  return output.match(/version\s+"([^"]+)"/)?.[1];
+}
+
+function parseVendor(output: string): string | undefined {
+  // Second line looks like: OpenJDK Runtime Environment Temurin-17.0.9+9 (build 17.0.9+9)
+  const runtimeLine = output.split(/\r?\n/).find((line) => line.includes("Runtime Environment"));
+  if (!runtimeLine) return undefined;
+  const match = runtimeLine.match(/Runtime Environment\s+([A-Za-z][\w.]*?)(?:-[\d.+]+)?\s+\(/);
+  if (match) return match[1];
+  return runtimeLine.startsWith("Java(TM)") ? "Oracle" : undefined;
 }
 
 function parseJavaVersion(output: string): number | undefined {
@@ -0,0 +1,211 @@
+import * as vscode from "vscode";
+import * as cp from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ZipArchive } from "./zipArchive";
+
+/**
+ * Scheme of library locations from the server: `jar:file:///lib.jar!/pkg/Foo.class`.
+ * For JDK classes the archive part is the JDK home (`jar:file:///jdk!/java.base/java/lang/String.class`).
+ */
+export const LIBRARY_SCHEME = "jar";
+
+interface LibraryLocation {
+  /** Jar file, or JDK home for JDK classes. */
+  archive: string;
+  /** Entry inside the archive, e.g. "pkg/Foo.class". */
+  entry: string;
+}
+
+export function parseLibraryUri(uri: vscode.Uri): LibraryLocation | undefined {
+  if (uri.scheme !== LIBRARY_SCHEME) return undefined;
+  const separator = uri.path.indexOf("!/");
+  if (separator < 0) return undefined;
+  const archiveUri = vscode.Uri.parse(uri.path.slice(0, separator));
+  if (archiveUri.scheme !== "file") return undefined;
+  return { archive: archiveUri.fsPath, entry: uri.path.slice(separator + 2) };
+}
+
+export function libraryUri(archive: string, entry: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: LIBRARY_SCHEME, path: `${vscode.Uri.file(archive).toString(true)}!/${entry}` });
+}
+
+/**
+ * Serves `jar:` documents. Source entries are read from the archive; class
+ * entries (libraries without sources) are shown as the declarations printed
+ * by `javap`.
+ */
+export class LibraryContentProvider implements vscode.TextDocumentContentProvider {
+  constructor(private readonly getJavaPath: () => string | undefined) {}
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const location = parseLibraryUri(uri);
+    if (!location) throw new Error(`Not a library location: ${uri.toString()}`);
+    if (location.entry.endsWith(".class")) return this.declarationStub(location);
+
+    const content = ZipArchive.open(location.archive).read(location.entry);
+    if (!content) throw new Error(`${location.entry} not found in ${location.archive}`);
+    return content.toString("utf8");
+  }
+
+  private async declarationStub({ archive, entry }: LibraryLocation): Promise<string> {
+    const isJdk = isDirectory(archive);
+    // JDK entries start with the module name: java.base/java/lang/String.class
+    const className = (isJdk ? entry.slice(entry.indexOf("/") + 1) : entry).replace(/\.class$/, "").replace(/\//g, ".");
+    const header = [
+      `// ${className}: no sources found for ${path.basename(archive)}`,
+      isJdk
+        ? "// Install the JDK sources (lib/src.zip) to see the real declarations"
+        : `// Put ${path.basename(archive, ".jar")}-sources.jar next to the jar, or let Gradle download sources, to see them`,
+      "",
+    ];
+
+    const javaPath = this.getJavaPath();
+    if (!javaPath) return [...header, "// Declarations unavailable: no Java runtime found"].join("\n");
+    const javap = path.join(path.dirname(javaPath), process.platform === "win32" ? "javap.exe" : "javap");
+    const args = isJdk ? [className] : ["-cp", archive, className];
+    try {
+      const output = await new Promise<string>((resolve, reject) => {
+        cp.execFile(javap, args, { timeout: 15000, maxBuffer: 4 * 1024 * 1024 }, (err, stdout, stderr) => {
+          if (err) reject(new Error(stderr.trim() || err.message));
+          else resolve(stdout);
+        });
+      });
+      return [...header, output.replace(/^Compiled from .*\r?\n/, "")].join("\n");
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return [...header, `// Declarations unavailable: javap failed: ${msg}`].join("\n");
+    }
+  }
+}
+
+/**
+ * The source document for a class location, if sources can be found: the
+ * `-sources.jar` next to the jar or in the Gradle cache, or the JDK's `src.zip`.
+ */
+export async function findLibrarySource(uri: vscode.Uri): Promise<vscode.Uri | undefined> {
+  const location = parseLibraryUri(uri);
+  if (!location || !location.entry.endsWith(".class")) return undefined;
+  try {
+    const sourceArchive = findSourceArchive(location.archive);
+    if (!sourceArchive) return undefined;
+    const entry = await findSourceEntry(ZipArchive.open(sourceArchive), location.entry);
+    return entry ? libraryUri(sourceArchive, entry) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function findSourceArchive(archive: string): string | undefined {
+  if (isDirectory(archive)) {
+    return [path.join(archive, "lib", "src.zip"), path.join(archive, "src.zip")].find((f) => fs.existsSync(f));
+  }
+
+  const base = path.basename(archive, ".jar");
+  const sibling = path.join(path.dirname(archive), `${base}-sources.jar`);
+  if (fs.existsSync(sibling)) return sibling;
+
+  // Gradle cache: files-2.1/<group>/<artifact>/<version>/<sha1>/<artifact>-<version>.jar,
+  // with the sources jar in another <sha1> directory of the same version
+  const versionDir = path.dirname(path.dirname(archive));
+  if (archive.includes(`${path.sep}files-2.1${path.sep}`)) {
+    return findInHashDirs(versionDir, `${base}-sources.jar`);
+  }
+
+  // Elsewhere (e.g. a copied or transformed jar): look the artifact up in the Gradle cache by name
+  const cache = path.join(process.env.GRADLE_USER_HOME ?? path.join(os.homedir(), ".gradle"), "caches", "modules-2", "files-2.1");
+  let groups: string[];
+  try {
+    groups = fs.readdirSync(cache);
+  } catch {
+    return undefined;
+  }
+  for (const [artifact, version] of artifactVersionSplits(base)) {
+    for (const group of groups) {
+      const found = findInHashDirs(path.join(cache, group, artifact, version), `${base}-sources.jar`);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+function findInHashDirs(versionDir: string, fileName: string): string | undefined {
+  let hashes: string[];
+  try {
+    hashes = fs.readdirSync(versionDir);
+  } catch {
+    return undefined;
+  }
+  return hashes.map((hash) => path.join(versionDir, hash, fileName)).find((f) => fs.existsSync(f));
+}
+
+/** Possible (artifact, version) pairs of a jar name: "okhttp-4.12.0" -> ["okhttp", "4.12.0"]. */
+function artifactVersionSplits(base: string): [string, string][] {
+  const splits: [string, string][] = [];
+  for (let i = base.indexOf("-"); i > 0; i = base.indexOf("-", i + 1)) {
+    if (/\d/.test(base[i + 1] ?? "")) splits.push([base.slice(0, i), base.slice(i + 1)]);
+  }
+  return splits;
+}
+
+/**
+ * Entry of the source file declaring a class entry. Kotlin files needn't match
+ * the class name (`CollectionsKt` is `Collections.kt`, several classes can share
+ * a file) or the package directory (the stdlib sources), so this falls back
+ * from the conventional path to a search by file name, then by declaration.
+ */
+async function findSourceEntry(sources: ZipArchive, classEntry: string): Promise<string | undefined> {
+  const dir = path.posix.dirname(classEntry);
+  const prefix = dir === "." ? "" : `${dir}/`;
+  let className = path.posix.basename(classEntry, ".class").split("$")[0];
+  // Multifile facade parts: CollectionsKt__CollectionsJVMKt
+  if (className.includes("__")) className = className.slice(className.indexOf("__") + 2);
+  const fileNames = [`${className}.java`, `${className}.kt`];
+  if (className.endsWith("Kt")) fileNames.push(`${className.slice(0, -2)}.kt`);
+
+  const direct = fileNames.map((f) => prefix + f).find((e) => sources.has(e));
+  if (direct) return direct;
+
+  const names = sources.names();
+  const inPackage = (entry: string) => dir === "." || path.posix.dirname(entry).endsWith(dir);
+  const byName = names.filter((e) => fileNames.includes(path.posix.basename(e)));
+  const match = byName.find(inPackage) ?? (byName.length === 1 ? byName[0] : undefined);
+  if (match) return match;
+
+  // Last resort: read the package's Kotlin files, without blocking, until one declares the class
+  const declaration = new RegExp(`\\b(?:class|interface|object)\\s+${escapeRegExp(className)}\\b`);
+  for (const entry of names.filter((e) => e.endsWith(".kt") && inPackage(e))) {
+    if (declaration.test((await sources.readAsync(entry))?.toString("utf8") ?? "")) return entry;
+  }
+  return undefined;
+}
+
+/** Zero-based line declaring `name` in Kotlin or Java source, or 0 if none is found. */
+export function findDeclarationLine(text: string, name: string): number {
+  const n = escapeRegExp(name);
+  const patterns = [
+    new RegExp(`\\b(?:class|interface|object|typealias|enum|record|@interface)\\s+${n}\\b`),
+    new RegExp(`\\b(?:fun|val|var)\\s+(?:<[^>]*>\\s*)?(?:[\\w.<>?, ]+\\.)?${n}\\b`),
+    // Java methods and fields: modifiers and a type before the name
+    new RegExp(`^\\s*(?:(?:public|protected|private|static|final|abstract|synchronized|native|default)\\s+)*[\\w<>\\[\\],.? ]+\\s+${n}\\s*[(=;]`),
+  ];
+  const lines = text.split(/\r?\n/);
+  for (const pattern of patterns) {
+    const line = lines.findIndex((l) => pattern.test(l) && !/^\s*(?:\/\/|\*|\/\*)/.test(l));
+    if (line >= 0) return line;
+  }
+  return 0;
+}
+
+function isDirectory(file: string): boolean {
+  try {
+    return fs.statSync(file).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
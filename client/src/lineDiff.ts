@@ -0,0 +1,104 @@
+/** Lines [start, end) of the old text replaced by [lines], which start at [newStart] in the new text. */
+export interface LineHunk {
+  start: number;
+  end: number;
+  newStart: number;
+  lines: string[];
+}
+
+/** Edit scripts longer than this are replaced by a single hunk (the trace grows with its square). */
+const MAX_EDIT_STEPS = 2000;
+
+/**
+ * Line diff of [a] to [b] as non-overlapping hunks, in order. Myers' algorithm
+ * between the common prefix and suffix, so small changes to large files stay cheap.
+ */
+export function diffLines(a: string[], b: string[]): LineHunk[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const x = a.slice(prefix, a.length - suffix);
+  const y = b.slice(prefix, b.length - suffix);
+  if (x.length === 0 && y.length === 0) return [];
+
+  const script = editScript(x, y);
+  if (!script) return [{ start: prefix, end: prefix + x.length, newStart: prefix, lines: y }];
+
+  const hunks: LineHunk[] = [];
+  let i = 0;
+  let j = 0;
+  let current: LineHunk | undefined;
+  for (const op of script) {
+    if (op === "=") {
+      if (current) hunks.push(current);
+      current = undefined;
+      i++;
+      j++;
+      continue;
+    }
+    current ??= { start: prefix + i, end: prefix + i, newStart: prefix + j, lines: [] };
+    if (op === "-") {
+      i++;
+      current.end = prefix + i;
+    } else {
+      current.lines.push(y[j]);
+      j++;
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+/** Myers' shortest edit script; undefined if it would take too much memory. */
+function editScript(a: string[], b: string[]): ("=" | "-" | "+")[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_STEPS) return undefined;
+    // Step d only reads diagonals -d-1..d+1 of the previous step
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const ops: ("=" | "-" | "+")[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const at = (diagonal: number) => previous[diagonal + d + 1];
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push("=");
+      x--;
+      y--;
+    }
+    if (d > 0) ops.push(x === prevX ? "+" : "-");
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
@@ -0,0 +1,117 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+/** The current file plus this many rotated ones: kotlin-review.log, kotlin-review.1.log, ... */
+const MAX_ROTATED_FILES = 3;
+const BASE_NAME = "kotlin-review";
+
+/**
+ * Timestamped copy of the output channel (extension messages, server stderr,
+ * `window/logMessage` and protocol traces) in the extension's log directory,
+ * so it survives a window reload. Rotates at 5 MB.
+ */
+export class RotatingLogFile implements vscode.Disposable {
+  private fd: number | undefined;
+  private size = 0;
+  private partial = "";
+
+  constructor(private readonly dir: string) {}
+
+  /** Log files, newest first. */
+  static files(dir: string): string[] {
+    return [fileName(0), ...Array.from({ length: MAX_ROTATED_FILES }, (_, i) => fileName(i + 1))]
+      .map((name) => path.join(dir, name))
+      .filter((file) => fs.existsSync(file));
+  }
+
+  append(text: string): void {
+    const lines = (this.partial + text).split(/\r?\n/);
+    this.partial = lines.pop() ?? "";
+    if (lines.length === 0) return;
+    const stamp = new Date().toISOString();
+    this.write(lines.map((line) => `${stamp} ${line}\n`).join(""));
+  }
+
+  /** Write out a trailing partial line, e.g. before the files are collected. */
+  flush(): void {
+    if (this.partial) this.append("\n");
+  }
+
+  private write(text: string): void {
+    try {
+      if (this.fd === undefined) this.open();
+      if (this.size > 0 && this.size + text.length > MAX_FILE_BYTES) {
+        this.rotate();
+      }
+      fs.writeSync(this.fd!, text);
+      this.size += Buffer.byteLength(text);
+    } catch {
+      // Logging must never break the extension; the output channel still has everything
+    }
+  }
+
+  private open(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const file = path.join(this.dir, fileName(0));
+    this.fd = fs.openSync(file, "a");
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  private rotate(): void {
+    this.close();
+    for (let i = MAX_ROTATED_FILES; i >= 1; i--) {
+      const from = path.join(this.dir, fileName(i - 1));
+      if (fs.existsSync(from)) fs.renameSync(from, path.join(this.dir, fileName(i)));
+    }
+    this.open();
+  }
+
+  private close(): void {
+    if (this.fd !== undefined) fs.closeSync(this.fd);
+    this.fd = undefined;
+    this.size = 0;
+  }
+
+  dispose(): void {
+    this.flush();
+    try {
+      this.close();
+    } catch {
+      // Already closed
+    }
+  }
+}
+
+function fileName(index: number): string {
+  return index === 0 ? `${BASE_NAME}.log` : `${BASE_NAME}.${index}.log`;
+}
+
+/** `channel`, with everything written to it also appended to `log`. */
+export function withLogFile(channel: vscode.OutputChannel, log: RotatingLogFile): vscode.OutputChannel {
+  return {
+    get name() {
+      return channel.name;
+    },
+    append(value: string) {
+      channel.append(value);
+      log.append(value);
+    },
+    appendLine(value: string) {
+      channel.appendLine(value);
+      log.append(`${value}\n`);
+    },
+    replace(value: string) {
+      channel.replace(value);
+      log.append(`${value}\n`);
+    },
+    clear: () => channel.clear(),
+    show(columnOrPreserveFocus?: vscode.ViewColumn | boolean, preserveFocus?: boolean) {
+      if (typeof columnOrPreserveFocus === "boolean") channel.show(columnOrPreserveFocus);
+      else channel.show(columnOrPreserveFocus, preserveFocus);
+    },
+    hide: () => channel.hide(),
+    dispose: () => channel.dispose(),
+  };
+}
@@ -0,0 +1,238 @@
+import * as vscode from "vscode";
+
+/** Durations kept per method for the percentiles. */
+const SAMPLES_PER_METHOD = 1000;
+/** Recent requests the slowest list is picked from. */
+const RECENT_REQUESTS = 500;
+const SLOWEST_SHOWN = 20;
+const MAX_EVENTS = 50;
+const RENDER_DELAY_MS = 1000;
+
+interface MethodStats {
+  count: number;
+  failed: number;
+  max: number;
+  /** Ring buffer of the latest successful durations (ms). */
+  samples: number[];
+  next: number;
+}
+
+interface RecentRequest {
+  method: string;
+  durationMs: number;
+  at: Date;
+  uri?: string;
+  line?: number;
+  character?: number;
+}
+
+interface StatsEvent {
+  at: Date;
+  text: string;
+}
+
+/**
+ * Latency of every LSP request by method since the extension started, plus
+ * server restarts and rebuilds, kept in memory only. Fed by the client's
+ * `sendRequest` middleware; shown by "Show Performance Stats".
+ */
+export class RequestStats {
+  private readonly methods = new Map<string, MethodStats>();
+  private readonly recent: RecentRequest[] = [];
+  private readonly events: StatsEvent[] = [];
+  private readonly progress = new Map<string | number, { title: string; started: number }>();
+  private readonly changed = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changed.event;
+  readonly since = new Date();
+
+  /** Time [send] as a request of [method]; [params] supply the file and position, if any. */
+  async time<R>(method: string, params: unknown, send: () => Promise<R>): Promise<R> {
+    const started = performance.now();
+    try {
+      const result = await send();
+      this.record(method, performance.now() - started, params);
+      return result;
+    } catch (e) {
+      this.stats(method).failed++;
+      this.changed.fire();
+      throw e;
+    }
+  }
+
+  event(text: string): void {
+    this.events.push({ at: new Date(), text });
+    if (this.events.length > MAX_EVENTS) this.events.shift();
+    this.changed.fire();
+  }
+
+  /** Server progress ("Rebuilding analysis...") becomes an event with its duration. */
+  progressBegin(token: string | number, title: string): void {
+    this.progress.set(token, { title, started: performance.now() });
+  }
+
+  progressEnd(token: string | number, message: string | undefined): void {
+    const begun = this.progress.get(token);
+    if (!begun) return;
+    this.progress.delete(token);
+    const seconds = ((performance.now() - begun.started) / 1000).toFixed(1);
+    this.event(`${begun.title}: ${message ?? "done"} (${seconds}s)`);
+  }
+
+  private stats(method: string): MethodStats {
+    let stats = this.methods.get(method);
+    if (!stats) {
+      stats = { count: 0, failed: 0, max: 0, samples: [], next: 0 };
+      this.methods.set(method, stats);
+    }
+    return stats;
+  }
+
+  private record(method: string, durationMs: number, params: unknown): void {
+    const stats = this.stats(method);
+    stats.count++;
+    stats.max = Math.max(stats.max, durationMs);
+    if (stats.samples.length < SAMPLES_PER_METHOD) stats.samples.push(durationMs);
+    else stats.samples[stats.next] = durationMs;
+    stats.next = (stats.next + 1) % SAMPLES_PER_METHOD;
+
+    const p = params as { textDocument?: { uri?: string }; position?: { line: number; character: number } } | undefined;
+    this.recent.push({
+      method,
+      durationMs,
+      at: new Date(),
+      uri: p?.textDocument?.uri,
+      line: p?.position?.line,
+      character: p?.position?.character,
+    });
+    if (this.recent.length > RECENT_REQUESTS) this.recent.shift();
+    this.changed.fire();
+  }
+
+  /** Methods by request count, with p50/p95 over their latest samples and the session max. */
+  methodRows(): { method: string; count: number; failed: number; p50: number; p95: number; max: number }[] {
+    return [...this.methods.entries()]
+      .map(([method, stats]) => {
+        const sorted = [...stats.samples].sort((a, b) => a - b);
+        return {
+          method,
+          count: stats.count,
+          failed: stats.failed,
+          p50: percentile(sorted, 50),
+          p95: percentile(sorted, 95),
+          max: stats.max,
+        };
+      })
+      .sort((a, b) => b.count - a.count);
+  }
+
+  slowest(): RecentRequest[] {
+    return [...this.recent].sort((a, b) => b.durationMs - a.durationMs).slice(0, SLOWEST_SHOWN);
+  }
+
+  recentEvents(): StatsEvent[] {
+    return [...this.events].reverse();
+  }
+
+  dispose(): void {
+    this.changed.dispose();
+  }
+}
+
+/** Nearest-rank percentile of ascending [sorted]; 0 when empty. */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/** Webview rendering [RequestStats]; one panel, re-rendered (throttled) while it is open. */
+export class PerformanceStatsPanel {
+  private static current: PerformanceStatsPanel | undefined;
+  private renderTimer: NodeJS.Timeout | undefined;
+
+  static show(stats: RequestStats): void {
+    if (PerformanceStatsPanel.current) {
+      PerformanceStatsPanel.current.panel.reveal();
+      return;
+    }
+    const panel = vscode.window.createWebviewPanel(
+      "kotlinReview.performanceStats",
+      "Kotlin Review: Performance",
+      vscode.ViewColumn.Active,
+      { enableScripts: false }
+    );
+    PerformanceStatsPanel.current = new PerformanceStatsPanel(panel, stats);
+  }
+
+  private constructor(private readonly panel: vscode.WebviewPanel, private readonly stats: RequestStats) {
+    this.render();
+    const subscription = stats.onDidChange(() => {
+      if (!this.renderTimer) this.renderTimer = setTimeout(() => this.render(), RENDER_DELAY_MS);
+    });
+    panel.onDidDispose(() => {
+      subscription.dispose();
+      if (this.renderTimer) clearTimeout(this.renderTimer);
+      PerformanceStatsPanel.current = undefined;
+    });
+  }
+
+  private render(): void {
+    this.renderTimer = undefined;
+    const { stats } = this;
+    const methods = stats.methodRows().map((row) => `<tr>
+      <td>${escape(row.method)}</td><td class="num">${row.count}</td><td class="num">${row.failed}</td>
+      <td class="num">${ms(row.p50)}</td><td class="num">${ms(row.p95)}</td><td class="num">${ms(row.max)}</td>
+    </tr>`);
+    const slowest = stats.slowest().map((request) => `<tr>
+      <td>${request.at.toLocaleTimeString()}</td><td>${escape(request.method)}</td>
+      <td class="num">${ms(request.durationMs)}</td><td>${escape(location(request))}</td>
+    </tr>`);
+    const events = stats.recentEvents().map((event) => `<tr>
+      <td>${event.at.toLocaleTimeString()}</td><td>${escape(event.text)}</td>
+    </tr>`);
+
+    this.panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+<style>
+  body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); }
+  table { border-collapse: collapse; margin-bottom: 1.5em; }
+  th, td { text-align: left; padding: 2px 12px 2px 0; border-bottom: 1px solid var(--vscode-panel-border); }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .note { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<p class="note">Since ${stats.since.toLocaleString()}. Kept in memory only; p50/p95 over the latest ${SAMPLES_PER_METHOD} requests per method; failed includes cancelled requests.</p>
+<h2>Requests</h2>
+${table(["Method", "Count", "Failed", "p50", "p95", "Max"], methods, [1, 2, 3, 4, 5])}
+<h2>Slowest recent requests</h2>
+${table(["Time", "Method", "Duration", "Location"], slowest, [2])}
+<h2>Server events</h2>
+${table(["Time", "Event"], events, [])}
+</body>
+</html>`;
+  }
+}
+
+function table(headers: string[], rows: string[], numeric: number[]): string {
+  if (rows.length === 0) return `<p class="note">None yet.</p>`;
+  const head = headers.map((header, i) => `<th${numeric.includes(i) ? ` class="num"` : ""}>${header}</th>`).join("");
+  return `<table><thead><tr>${head}</tr></thead><tbody>${rows.join("")}</tbody></table>`;
+}
+
+function location(request: RecentRequest): string {
+  if (!request.uri) return "";
+  const uri = vscode.Uri.parse(request.uri);
+  const file = uri.scheme === "file" ? vscode.workspace.asRelativePath(uri, false) : request.uri;
+  return request.line === undefined ? file : `${file}:${request.line + 1}:${(request.character ?? 0) + 1}`;
+}
+
+function ms(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(2)} s` : `${Math.round(value)} ms`;
+}
+
+function escape(text: string): string {
+  return text.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+}
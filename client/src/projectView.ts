@@ -0,0 +1,181 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { LanguageClient } from "vscode-languageclient/node";
+import { BuildRootInfo, ModuleModelInfo, PROJECT_MODEL_REQUEST, ProjectModelResult, TargetModelInfo } from "./protocol";
+
+export const PROJECT_VIEW_ID = "kotlinReview.projectModel";
+
+type PathKind = "sourceRoot" | "classpath";
+
+export type ProjectNode =
+  | { kind: "root"; root: BuildRootInfo }
+  | { kind: "module"; module: ModuleModelInfo }
+  | { kind: "target"; target: TargetModelInfo }
+  | { kind: "group"; label: string; pathKind: PathKind; paths: string[] }
+  | { kind: "path"; pathKind: PathKind; path: string }
+  | { kind: "property"; label: string; value: string }
+  | { kind: "message"; label: string };
+
+/**
+ * "Kotlin Project" view: what the server resolved for each build root --
+ * modules, their source roots, KMP targets and classpath. The model is
+ * fetched once per refresh, and its paths are checked for existence then;
+ * missing classpath entries are flagged.
+ */
+export class ProjectModelView implements vscode.TreeDataProvider<ProjectNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<ProjectNode | undefined>();
+  private model: Promise<ProjectModelResult | undefined> | undefined;
+  /** Paths of the current model that don't exist on disk. */
+  private missing = new Set<string>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly getClient: () => LanguageClient | undefined) {}
+
+  /** Fetch the model again, e.g. after the server rebuilt it. */
+  refresh(): void {
+    this.model = undefined;
+    this.changeEmitter.fire(undefined);
+  }
+
+  async getChildren(node?: ProjectNode): Promise<ProjectNode[]> {
+    if (!node) return this.getRoots();
+    switch (node.kind) {
+      case "root":
+        if (!node.root.resolved) {
+          return [{ kind: "message", label: "Not resolved yet; open a Kotlin file in this build root" }];
+        }
+        return node.root.modules.map((module) => ({ kind: "module", module }));
+      case "module": {
+        const module = node.module;
+        const properties: ProjectNode[] = [];
+        if (module.variant) properties.push({ kind: "property", label: "Build variant", value: module.variant });
+        properties.push({ kind: "property", label: "Kotlin version", value: module.kotlinVersion ?? "unknown" });
+        properties.push({ kind: "property", label: "JVM target", value: module.jvmTarget ?? "default" });
+        return [
+          ...properties,
+          ...pathGroups(module),
+          ...module.targets.map((target): ProjectNode => ({ kind: "target", target })),
+        ];
+      }
+      case "target":
+        return pathGroups(node.target);
+      case "group":
+        return node.paths.map((p) => ({ kind: "path", pathKind: node.pathKind, path: p }));
+      default:
+        return [];
+    }
+  }
+
+  getTreeItem(node: ProjectNode): vscode.TreeItem {
+    const { Collapsed, None } = vscode.TreeItemCollapsibleState;
+    switch (node.kind) {
+      case "root": {
+        const item = new vscode.TreeItem(path.basename(node.root.rootDir), vscode.TreeItemCollapsibleState.Expanded);
+        const details = [node.root.buildSystem];
+        if (node.root.isMultiplatform) details.push("multiplatform");
+        if (!node.root.resolved) details.push("not resolved");
+        item.description = details.join(" · ");
+        item.tooltip = node.root.rootDir;
+        item.iconPath = new vscode.ThemeIcon("root-folder");
+        return item;
+      }
+      case "module": {
+        const item = new vscode.TreeItem(node.module.name, Collapsed);
+        if (node.module.isAndroid) item.description = "Android";
+        item.iconPath = new vscode.ThemeIcon("package");
+        return item;
+      }
+      case "target": {
+        const item = new vscode.TreeItem(node.target.name, Collapsed);
+        item.description = node.target.platform;
+        item.iconPath = new vscode.ThemeIcon("target");
+        return item;
+      }
+      case "group": {
+        const item = new vscode.TreeItem(node.label, node.paths.length > 0 ? Collapsed : None);
+        const missing = node.pathKind === "classpath" ? node.paths.filter((p) => this.missing.has(p)).length : 0;
+        item.description = missing > 0
+          ? `${node.paths.length} entries, ${missing} missing`
+          : `${node.paths.length} ${node.paths.length === 1 ? "entry" : "entries"}`;
+        item.iconPath = missing > 0
+          ? new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"))
+          : new vscode.ThemeIcon(node.pathKind === "classpath" ? "library" : "folder-library");
+        if (node.pathKind === "classpath" && node.paths.length > 0) item.contextValue = "classpath";
+        return item;
+      }
+      case "path": {
+        const item = new vscode.TreeItem(path.basename(node.path), None);
+        item.tooltip = node.path;
+        if (!this.missing.has(node.path)) {
+          item.resourceUri = vscode.Uri.file(node.path);
+          item.description = path.dirname(node.path);
+          item.iconPath = node.pathKind === "sourceRoot" ? vscode.ThemeIcon.Folder : vscode.ThemeIcon.File;
+          if (node.pathKind === "sourceRoot") item.contextValue = "sourceRoot";
+        } else {
+          item.description = `missing · ${path.dirname(node.path)}`;
+          // Source roots that don't exist yet are normal (e.g. generated sources); missing jars are not
+          item.iconPath = node.pathKind === "classpath"
+            ? new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"))
+            : new vscode.ThemeIcon("circle-slash");
+        }
+        return item;
+      }
+      case "property": {
+        const item = new vscode.TreeItem(node.label, None);
+        item.description = node.value;
+        item.iconPath = new vscode.ThemeIcon("symbol-property");
+        return item;
+      }
+      case "message": {
+        const item = new vscode.TreeItem(node.label, None);
+        item.iconPath = new vscode.ThemeIcon("info");
+        return item;
+      }
+    }
+  }
+
+  private async getRoots(): Promise<ProjectNode[]> {
+    const client = this.getClient();
+    if (!client?.isRunning()) {
+      return [{ kind: "message", label: "Language server is not running" }];
+    }
+    this.model ??= Promise.resolve(client.sendRequest<ProjectModelResult>(PROJECT_MODEL_REQUEST))
+      .then(async (result) => {
+        this.missing = await missingPaths(result);
+        return result;
+      })
+      .catch(() => undefined);
+    const result = await this.model;
+    if (!result) return [{ kind: "message", label: "Failed to get the project model from the server" }];
+    if (result.roots.length === 0) return [{ kind: "message", label: "No build roots discovered yet" }];
+    return result.roots.map((root) => ({ kind: "root", root }));
+  }
+}
+
+function pathGroups(paths: ModuleModelInfo | TargetModelInfo): ProjectNode[] {
+  return [
+    { kind: "group", label: "Source roots", pathKind: "sourceRoot", paths: paths.sourceRoots },
+    { kind: "group", label: "Test source roots", pathKind: "sourceRoot", paths: paths.testSourceRoots },
+    { kind: "group", label: "Classpath", pathKind: "classpath", paths: paths.classpath },
+    { kind: "group", label: "Test classpath", pathKind: "classpath", paths: paths.testClasspath },
+  ];
+}
+
+/** Every source root and classpath entry of the model that doesn't exist. */
+async function missingPaths(result: ProjectModelResult): Promise<Set<string>> {
+  const paths = new Set<string>();
+  for (const root of result.roots) {
+    for (const module of root.modules) {
+      for (const owner of [module, ...module.targets]) {
+        for (const p of [...owner.sourceRoots, ...owner.testSourceRoots, ...owner.classpath, ...owner.testClasspath]) {
+          paths.add(p);
+        }
+      }
+    }
+  }
+  const missing = new Set<string>();
+  await Promise.all([...paths].map((p) => fs.promises.access(p).catch(() => missing.add(p))));
+  return missing;
+}
@@ -0,0 +1,91 @@
+// Custom `kotlinReview/...` requests. Mirrors server/src/main/kotlin/dev/review/lsp/KotlinReviewProtocol.kt.
+
+export const KMP_TARGETS_REQUEST = "kotlinReview/kmpTargets";
+
+export interface KmpTargetsParams {
+  uri: string;
+}
+
+export interface KmpTargetsResult {
+  /** KMP platforms with an analysis session for the file's build root (e.g. "JVM", "JS"). */
+  targets: string[];
+  /** Platform the file is currently analyzed with, or null for non-KMP projects. */
+  platform: string | null;
+  /** User-selected platform for shared source sets, or null for the default. */
+  primaryTarget: string | null;
+}
+
+/** Notification (no params): re-resolve the project model and rebuild all analysis sessions. */
+export const REBUILD_NOTIFICATION = "kotlinReview/rebuild";
+
+export const SOURCE_SET_INFO_REQUEST = "kotlinReview/sourceSetInfo";
+
+export interface SourceSetInfoParams {
+  uri: string;
+}
+
+/** Null when the file isn't in the server's project model. */
+export interface SourceSetInfoResult {
+  /** Gradle module (project) name. */
+  module: string;
+  /** Source set directory name, e.g. "iosArm64Main", "commonTest", "debug". */
+  sourceSet: string;
+  isTest: boolean;
+  /** Source sets this one depends on, nearest first. */
+  dependsOn: string[];
+  /** Targets the source set is compiled for, e.g. "iosArm64"; empty if unknown. */
+  targets: string[];
+  /** Distinct platforms of `targets` (e.g. "NATIVE"). */
+  platforms: string[];
+}
+
+/** Request (no params): every discovered build root with its resolved project model. */
+export const PROJECT_MODEL_REQUEST = "kotlinReview/projectModel";
+
+export interface ProjectModelResult {
+  roots: BuildRootInfo[];
+}
+
+export interface BuildRootInfo {
+  rootDir: string;
+  /** Build system provider id, e.g. "gradle" or "manual". */
+  buildSystem: string;
+  /** False until the root is resolved; multi-root workspaces resolve roots on first use. */
+  resolved: boolean;
+  isMultiplatform: boolean;
+  modules: ModuleModelInfo[];
+}
+
+export interface ModuleModelInfo {
+  name: string;
+  isAndroid: boolean;
+  /** Android build variant the module was resolved with, or null for non-Android modules. */
+  variant: string | null;
+  kotlinVersion: string | null;
+  jvmTarget: string | null;
+  sourceRoots: string[];
+  testSourceRoots: string[];
+  classpath: string[];
+  testClasspath: string[];
+  targets: TargetModelInfo[];
+}
+
+export interface TargetModelInfo {
+  name: string;
+  /** KMP platform, e.g. "JVM" or "NATIVE". */
+  platform: string;
+  sourceRoots: string[];
+  testSourceRoots: string[];
+  classpath: string[];
+  testClasspath: string[];
+}
+
+/** Notification sent before a non-file document (diff view, untitled buffer, library source) is opened. */
+export const VIRTUAL_DOCUMENT_NOTIFICATION = "kotlinReview/virtualDocument";
+
+export interface VirtualDocumentParams {
+  /** Document URI with a non-file scheme, e.g. `git:` or `untitled:`. */
+  uri: string;
+  /** `file:` URI of the workspace file the document is a version of, or null if there is none. */
+  workspaceUri: string | null;
+}
@@ -0,0 +1,193 @@
+import * as vscode from "vscode";
+import * as cp from "child_process";
+import * as path from "path";
+import { getReviewDiagnosticsFilter } from "./config";
+
+/** Changed lines of a file, zero-based and inclusive; "all" for files new since the base. */
+export type ChangedLines = [number, number][] | "all";
+
+const BASE_REF_KEY = "kotlinReview.review.baseRef";
+
+/**
+ * Review mode: diagnostics limited to the lines changed since a base ref.
+ * Changes are `git diff` of the working tree against the merge base of the
+ * base ref and HEAD, so they include uncommitted edits. Diagnostics from the
+ * server pass through [filterDiagnostics] (client middleware); the unfiltered
+ * ones are kept so switching the mode re-applies them.
+ */
+export class ReviewMode implements vscode.Disposable {
+  private baseRef: string | undefined;
+  private changes = new Map<string, ChangedLines>();
+  private readonly rawDiagnostics = new Map<string, vscode.Diagnostic[]>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  /** Fired when review mode starts, stops or its changed lines are recomputed. */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private readonly workspaceState: vscode.Memento,
+    private readonly outputChannel: vscode.OutputChannel
+  ) {
+    this.baseRef = workspaceState.get<string>(BASE_REF_KEY);
+  }
+
+  get active(): boolean {
+    return this.baseRef !== undefined;
+  }
+
+  get base(): string | undefined {
+    return this.baseRef;
+  }
+
+  async start(baseRef: string): Promise<void> {
+    this.baseRef = baseRef;
+    await this.workspaceState.update(BASE_REF_KEY, baseRef);
+    await this.refresh();
+  }
+
+  async stop(): Promise<void> {
+    this.baseRef = undefined;
+    this.changes.clear();
+    await this.workspaceState.update(BASE_REF_KEY, undefined);
+    await vscode.commands.executeCommand("setContext", "kotlinReview.reviewActive", false);
+    this.changeEmitter.fire();
+  }
+
+  /** Recompute the changed lines of every git repository in the workspace. */
+  async refresh(): Promise<void> {
+    const baseRef = this.baseRef;
+    if (baseRef === undefined) return;
+    const changes = new Map<string, ChangedLines>();
+    for (const root of await gitRoots()) {
+      try {
+        const mergeBase = (await git(root, ["merge-base", baseRef, "HEAD"])).trim();
+        const diff = await git(root, [
+          "-c", "core.quotepath=off", "diff", "--unified=0", "--no-color", "--no-ext-diff", mergeBase, "--", "*.kt", "*.kts",
+        ]);
+        for (const [file, lines] of parseDiff(diff, root)) changes.set(file, lines);
+        const untracked = await git(root, ["-c", "core.quotepath=off", "ls-files", "--others", "--exclude-standard", "--", "*.kt", "*.kts"]);
+        for (const file of untracked.split("\n").filter(Boolean)) changes.set(path.join(root, file), "all");
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        this.outputChannel.appendLine(`[Review] Failed to diff ${root} against ${baseRef}: ${msg}`);
+      }
+    }
+    if (this.baseRef !== baseRef) return; // stopped or restarted meanwhile
+    this.changes = changes;
+    this.outputChannel.appendLine(`[Review] ${changes.size} changed Kotlin file(s) since ${baseRef}`);
+    await vscode.commands.executeCommand("setContext", "kotlinReview.reviewActive", true);
+    this.changeEmitter.fire();
+  }
+
+  changedFiles(): vscode.Uri[] {
+    return [...this.changes.keys()].sort().map((file) => vscode.Uri.file(file));
+  }
+
+  changedLines(uri: vscode.Uri): ChangedLines | undefined {
+    return uri.scheme === "file" ? this.changes.get(uri.fsPath) : undefined;
+  }
+
+  /** True if `range` touches a changed line of `uri`. */
+  isChanged(uri: vscode.Uri, range: vscode.Range): boolean {
+    const lines = this.changedLines(uri);
+    if (!lines) return false;
+    if (lines === "all") return true;
+    return lines.some(([start, end]) => range.start.line <= end && range.end.line >= start);
+  }
+
+  /**
+   * Diagnostics to show for `uri`: outside review mode all of them; in review
+   * mode those on changed lines, with the rest hidden or shown as hints
+   * depending on `kotlinReview.review.diagnostics`.
+   */
+  filterDiagnostics(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): vscode.Diagnostic[] {
+    this.rawDiagnostics.set(uri.toString(), diagnostics);
+    if (!this.active || uri.scheme !== "file") return diagnostics;
+    if (getReviewDiagnosticsFilter() === "hide") {
+      return diagnostics.filter((d) => this.isChanged(uri, d.range));
+    }
+    return diagnostics.map((d) => {
+      if (this.isChanged(uri, d.range)) return d;
+      const hint = new vscode.Diagnostic(d.range, d.message, vscode.DiagnosticSeverity.Hint);
+      Object.assign(hint, { source: d.source, code: d.code, tags: d.tags, relatedInformation: d.relatedInformation });
+      return hint;
+    });
+  }
+
+  /** Re-filter the last diagnostics received for every file, e.g. after the changes were recomputed. */
+  reapply(collection: vscode.DiagnosticCollection | undefined): void {
+    if (!collection) return;
+    for (const [uri, diagnostics] of this.rawDiagnostics) {
+      const parsed = vscode.Uri.parse(uri);
+      collection.set(parsed, this.filterDiagnostics(parsed, diagnostics));
+    }
+  }
+
+  /** Branches and tags to offer as the base, local branches first. */
+  async listRefs(): Promise<string[]> {
+    const [root] = await gitRoots();
+    if (!root) return [];
+    const output = await git(root, [
+      "for-each-ref", "--sort=-committerdate", "--format=%(refname:short)", "refs/heads", "refs/remotes", "refs/tags",
+    ]);
+    return output.split("\n").filter((ref) => ref && !ref.endsWith("/HEAD"));
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * Parse `git diff --unified=0` output into the changed lines of each file
+ * (new side, absolute paths). Pure deletions leave no lines behind and are skipped.
+ */
+export function parseDiff(diff: string, root: string): Map<string, ChangedLines> {
+  const result = new Map<string, ChangedLines>();
+  let current: [number, number][] | undefined;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      const target = line.slice(4).trim();
+      if (target === "/dev/null") {
+        current = undefined;
+      } else {
+        current = [];
+        result.set(path.join(root, target.replace(/^b\//, "")), current);
+      }
+      continue;
+    }
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && current) {
+      const start = parseInt(hunk[1], 10) - 1;
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      if (count > 0) current.push([start, start + count - 1]);
+    }
+  }
+  for (const [file, lines] of result) {
+    if (lines !== "all" && lines.length === 0) result.delete(file);
+  }
+  return result;
+}
+
+/** Top-level directories of the git repositories containing the workspace folders. */
+async function gitRoots(): Promise<string[]> {
+  const roots = new Set<string>();
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    if (folder.uri.scheme !== "file") continue;
+    try {
+      roots.add(path.normalize((await git(folder.uri.fsPath, ["rev-parse", "--show-toplevel"])).trim()));
+    } catch {
+      // Not a git repository
+    }
+  }
+  return [...roots];
+}
+
+function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    cp.execFile("git", args, { cwd, maxBuffer: 64 * 1024 * 1024, timeout: 60000 }, (err, stdout, stderr) => {
+      if (err) reject(new Error(stderr.trim() || err.message));
+      else resolve(stdout);
+    });
+  });
+}
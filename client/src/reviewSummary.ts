@@ -0,0 +1,156 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ReviewMode } from "./reviewMode";
+
+export const REVIEW_SUMMARY_VIEW_ID = "kotlinReview.reviewSummary";
+
+type SummaryNode =
+  | { kind: "file"; uri: vscode.Uri }
+  | { kind: "declaration"; uri: vscode.Uri; symbol: vscode.DocumentSymbol }
+  | { kind: "diagnostic"; uri: vscode.Uri; diagnostic: vscode.Diagnostic }
+  | { kind: "message"; label: string };
+
+/**
+ * "Review Summary" view: the declarations touched by the changes under review,
+ * per file, with the diagnostics on their changed lines. Declarations come from
+ * the language server's document symbols.
+ */
+export class ReviewSummaryView implements vscode.TreeDataProvider<SummaryNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<SummaryNode | undefined>();
+  private readonly symbols = new Map<string, Promise<vscode.DocumentSymbol[]>>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly review: ReviewMode) {}
+
+  /** Redraw; with `reloadSymbols`, also fetch the declarations again (e.g. after a save). */
+  refresh(reloadSymbols = false): void {
+    if (reloadSymbols) this.symbols.clear();
+    this.changeEmitter.fire(undefined);
+  }
+
+  async getChildren(node?: SummaryNode): Promise<SummaryNode[]> {
+    if (!node) {
+      if (!this.review.active) return [{ kind: "message", label: "Review mode is off" }];
+      const files = this.review.changedFiles();
+      if (files.length === 0) return [{ kind: "message", label: `No Kotlin changes since ${this.review.base}` }];
+      return files.map((uri) => ({ kind: "file", uri }));
+    }
+    switch (node.kind) {
+      case "file":
+        return this.changedDeclarations(node.uri, await this.getSymbols(node.uri));
+      case "declaration": {
+        const nested = this.changedDeclarations(node.uri, node.symbol.children);
+        const inChildren = (d: vscode.Diagnostic) => node.symbol.children.some((c) => c.range.intersection(d.range));
+        const own = this.diagnosticsIn(node.uri, node.symbol.range).filter((d) => !inChildren(d));
+        return [...nested, ...own.map((diagnostic): SummaryNode => ({ kind: "diagnostic", uri: node.uri, diagnostic }))];
+      }
+      default:
+        return [];
+    }
+  }
+
+  getTreeItem(node: SummaryNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "file": {
+        const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Expanded);
+        const folder = vscode.workspace.getWorkspaceFolder(node.uri);
+        item.description = folder ? path.dirname(path.relative(folder.uri.fsPath, node.uri.fsPath)) : undefined;
+        const counts = countProblems(this.diagnosticsIn(node.uri));
+        if (counts) item.description = `${item.description ?? ""} · ${counts}`;
+        return item;
+      }
+      case "declaration": {
+        const diagnostics = this.diagnosticsIn(node.uri, node.symbol.range);
+        const changedChildren = this.changedDeclarations(node.uri, node.symbol.children);
+        const item = new vscode.TreeItem(
+          node.symbol.name,
+          diagnostics.length > 0 || changedChildren.length > 0
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None
+        );
+        item.description = countProblems(diagnostics) || node.symbol.detail || undefined;
+        item.iconPath = problemIcon(diagnostics) ?? new vscode.ThemeIcon(symbolIcon(node.symbol.kind));
+        item.command = openCommand(node.uri, node.symbol.selectionRange);
+        return item;
+      }
+      case "diagnostic": {
+        const item = new vscode.TreeItem(node.diagnostic.message, vscode.TreeItemCollapsibleState.None);
+        item.description = `line ${node.diagnostic.range.start.line + 1}`;
+        item.tooltip = node.diagnostic.source ? `${node.diagnostic.source}: ${node.diagnostic.message}` : node.diagnostic.message;
+        item.iconPath = problemIcon([node.diagnostic]);
+        item.command = openCommand(node.uri, node.diagnostic.range);
+        return item;
+      }
+      case "message":
+        return new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+    }
+  }
+
+  private getSymbols(uri: vscode.Uri): Promise<vscode.DocumentSymbol[]> {
+    let symbols = this.symbols.get(uri.toString());
+    if (!symbols) {
+      symbols = Promise.resolve(
+        vscode.commands.executeCommand<vscode.DocumentSymbol[] | undefined>("vscode.executeDocumentSymbolProvider", uri)
+      ).then((result) => result ?? [], () => []);
+      this.symbols.set(uri.toString(), symbols);
+    }
+    return symbols;
+  }
+
+  private changedDeclarations(uri: vscode.Uri, symbols: vscode.DocumentSymbol[]): SummaryNode[] {
+    return symbols
+      .filter((symbol) => this.review.isChanged(uri, symbol.range))
+      .map((symbol) => ({ kind: "declaration", uri, symbol }));
+  }
+
+  /** Diagnostics shown for `uri` (already limited by review mode) on changed lines within `range`. */
+  private diagnosticsIn(uri: vscode.Uri, range?: vscode.Range): vscode.Diagnostic[] {
+    return vscode.languages.getDiagnostics(uri).filter((d) =>
+      d.severity <= vscode.DiagnosticSeverity.Warning &&
+      this.review.isChanged(uri, d.range) &&
+      (!range || range.intersection(d.range) !== undefined)
+    );
+  }
+}
+
+function countProblems(diagnostics: vscode.Diagnostic[]): string {
+  const errors = diagnostics.filter((d) => d.severity === vscode.DiagnosticSeverity.Error).length;
+  const warnings = diagnostics.length - errors;
+  const parts: string[] = [];
+  if (errors > 0) parts.push(`${errors} error${errors === 1 ? "" : "s"}`);
+  if (warnings > 0) parts.push(`${warnings} warning${warnings === 1 ? "" : "s"}`);
+  return parts.join(", ");
+}
+
+function problemIcon(diagnostics: vscode.Diagnostic[]): vscode.ThemeIcon | undefined {
+  if (diagnostics.some((d) => d.severity === vscode.DiagnosticSeverity.Error)) {
+    return new vscode.ThemeIcon("error", new vscode.ThemeColor("problemsErrorIcon.foreground"));
+  }
+  if (diagnostics.length > 0) {
+    return new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"));
+  }
+  return undefined;
+}
+
+function symbolIcon(kind: vscode.SymbolKind): string {
+  switch (kind) {
+    case vscode.SymbolKind.Class: return "symbol-class";
+    case vscode.SymbolKind.Interface: return "symbol-interface";
+    case vscode.SymbolKind.Enum: return "symbol-enum";
+    case vscode.SymbolKind.EnumMember: return "symbol-enum-member";
+    case vscode.SymbolKind.Object: return "symbol-namespace";
+    case vscode.SymbolKind.Function:
+    case vscode.SymbolKind.Method: return "symbol-method";
+    case vscode.SymbolKind.Constructor: return "symbol-constructor";
+    case vscode.SymbolKind.Field:
+    case vscode.SymbolKind.Property: return "symbol-property";
+    case vscode.SymbolKind.Variable: return "symbol-variable";
+    case vscode.SymbolKind.Constant: return "symbol-constant";
+    default: return "symbol-misc";
+  }
+}
+
+function openCommand(uri: vscode.Uri, range: vscode.Range): vscode.Command {
+  return { title: "Open", command: "vscode.open", arguments: [uri, { selection: range } as vscode.TextDocumentShowOptions] };
+}
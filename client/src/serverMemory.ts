@@ -0,0 +1,61 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+
+const MB = 1024 * 1024;
+/** Never give the server more than this share of the machine's memory by default. */
+const MAX_MEMORY_SHARE = 0.4;
+const MIN_HEAP_MB = 1024;
+const BASE_HEAP_MB = 1536;
+const HEAP_MB_PER_FILE = 0.75;
+/** Each module gets its own analysis session (one per target in KMP modules). */
+const HEAP_MB_PER_MODULE = 48;
+const MAX_COUNTED_FILES = 20_000;
+const EXCLUDE = "**/{build,.gradle,.git,node_modules,.idea,.kotlin}/**";
+
+export interface HeapEstimate {
+  heapMb: number;
+  ktFiles: number;
+  modules: number;
+}
+
+/**
+ * Default max heap for the workspace: grows with the number of Kotlin files
+ * and Gradle modules, capped at 40% of the machine's memory, in 512 MB steps.
+ */
+export function recommendHeapMb(totalMemBytes: number, ktFiles: number, modules: number): number {
+  const wanted = BASE_HEAP_MB + ktFiles * HEAP_MB_PER_FILE + modules * HEAP_MB_PER_MODULE;
+  const cap = Math.max(MIN_HEAP_MB, (totalMemBytes / MB) * MAX_MEMORY_SHARE);
+  return Math.max(MIN_HEAP_MB, Math.floor(Math.min(wanted, cap) / 512) * 512);
+}
+
+/** Count the workspace's Kotlin files and Gradle modules (quickly, through the file search index). */
+export async function estimateHeap(): Promise<HeapEstimate> {
+  const [ktFiles, buildFiles] = await Promise.all([
+    vscode.workspace.findFiles("**/*.{kt,kts}", EXCLUDE, MAX_COUNTED_FILES),
+    vscode.workspace.findFiles("**/build.gradle{,.kts}", EXCLUDE, MAX_COUNTED_FILES),
+  ]);
+  const modules = Math.max(1, buildFiles.length);
+  return { heapMb: recommendHeapMb(os.totalmem(), ktFiles.length, modules), ktFiles: ktFiles.length, modules };
+}
+
+/** True for server output reporting an exhausted heap. */
+export function isOutOfMemory(line: string): boolean {
+  return line.includes("java.lang.OutOfMemoryError");
+}
+
+/** Resident memory of a process in bytes, from `/proc/<pid>/status`; undefined where that isn't available. */
+export async function readResidentBytes(pid: number): Promise<number | undefined> {
+  if (process.platform !== "linux") return undefined;
+  try {
+    const status = await fs.promises.readFile(`/proc/${pid}/status`, "utf8");
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    return match ? parseInt(match[1], 10) * 1024 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function formatMb(mb: number): string {
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1).replace(/\.0$/, "")} GB` : `${Math.round(mb)} MB`;
+}
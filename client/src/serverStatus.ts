@@ -0,0 +1,106 @@
+import * as vscode from "vscode";
+import { ProgressToken, State, WorkDoneProgressBegin, WorkDoneProgressEnd, WorkDoneProgressReport } from "vscode-languageclient/node";
+
+type ProgressValue = WorkDoneProgressBegin | WorkDoneProgressReport | WorkDoneProgressEnd;
+
+/**
+ * Status bar item showing what the language server is doing. Driven by the
+ * client state and the server's `$/progress` reports: "Discovering build
+ * roots..." and "Rebuilding analysis..." show a spinner, progress that ends
+ * with a failure message ("Initialization failed", "Rebuild failed") shows
+ * an error until the next successful run.
+ */
+export class ServerStatusItem implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private readonly active = new Map<ProgressToken, { title: string; message?: string }>();
+  private clientState: State = State.Starting;
+  private failure: string | undefined;
+  private lastResult: string | undefined;
+  private memory: string | undefined;
+  /** False until the server finishes its first analysis run after (re)starting. */
+  private initialized = false;
+
+  constructor(command: string) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 1);
+    this.item.command = command;
+    this.render();
+    this.item.show();
+  }
+
+  setClientState(state: State): void {
+    this.clientState = state;
+    if (state !== State.Running) this.active.clear();
+    if (state === State.Starting) {
+      this.failure = undefined;
+      this.initialized = false;
+    }
+    this.render();
+  }
+
+  /** Set when the server failed outside of a progress report, e.g. it crashed too often. */
+  setFailure(message: string): void {
+    this.failure = message;
+    this.render();
+  }
+
+  /** Memory line for the tooltip (resident size, max heap); undefined to hide it. */
+  setMemory(memory: string | undefined): void {
+    if (memory === this.memory) return;
+    this.memory = memory;
+    this.render();
+  }
+
+  handleProgress(token: ProgressToken, value: ProgressValue): void {
+    switch (value.kind) {
+      case "begin":
+        this.active.set(token, { title: value.title, message: value.message });
+        break;
+      case "report": {
+        const progress = this.active.get(token);
+        if (progress && value.message) progress.message = value.message;
+        break;
+      }
+      case "end":
+        this.active.delete(token);
+        this.initialized = true;
+        if (value.message && /fail/i.test(value.message)) {
+          this.failure = value.message;
+        } else {
+          this.failure = undefined;
+          this.lastResult = value.message;
+        }
+        break;
+    }
+    this.render();
+  }
+
+  private render(): void {
+    this.item.backgroundColor = undefined;
+    const current = [...this.active.values()].pop();
+    if (this.clientState === State.Stopped) {
+      this.item.text = this.failure ? "$(error) Kotlin" : "$(circle-slash) Kotlin";
+      this.item.tooltip = `Kotlin Review: ${this.failure ?? "language server stopped"}`;
+      if (this.failure) this.item.backgroundColor = new vscode.ThemeColor("statusBarItem.errorBackground");
+    } else if (this.clientState === State.Starting || (!this.initialized && !current)) {
+      this.item.text = "$(sync~spin) Kotlin";
+      this.item.tooltip = "Kotlin Review: starting language server...";
+    } else if (current) {
+      this.item.text = `$(sync~spin) Kotlin: ${current.message ?? current.title}`;
+      this.item.tooltip = [current.title, current.message].filter(Boolean).join(": ");
+    } else if (this.failure) {
+      this.item.text = "$(error) Kotlin";
+      this.item.tooltip = `Kotlin Review: ${this.failure}. Click for actions.`;
+      this.item.backgroundColor = new vscode.ThemeColor("statusBarItem.errorBackground");
+    } else {
+      this.item.text = "$(check) Kotlin";
+      this.item.tooltip = this.lastResult ? `Kotlin Review: ${this.lastResult}` : "Kotlin Review: ready";
+    }
+    if (this.memory && this.clientState !== State.Stopped) {
+      this.item.tooltip = `${this.item.tooltip}\n${this.memory}`;
+    }
+  }
+
+  dispose(): void {
+    this.item.dispose();
+  }
+}
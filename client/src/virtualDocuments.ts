@@ -0,0 +1,46 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { LIBRARY_SCHEME } from "./librarySources";
+
+/**
+ * Schemes of documents mirrored to the server as in-memory documents: the old
+ * side of git diffs, GitHub pull request views (`pr:`, `review:`), untitled
+ * buffers and library sources.
+ */
+export const MIRRORED_SCHEMES = ["git", "pr", "review", "untitled", LIBRARY_SCHEME];
+
+/**
+ * The workspace file a mirrored document is a version of, which decides the
+ * module the server analyzes it in. Diff providers keep the file path in the
+ * URI path or in a JSON query (`{"path": ...}` for git, `{"fileName": ...}`
+ * relative to the repository for pull requests).
+ */
+export function workspaceFileFor(uri: vscode.Uri): vscode.Uri | undefined {
+  if (uri.scheme === "untitled" || uri.scheme === LIBRARY_SCHEME) return undefined;
+
+  const candidates: string[] = [];
+  try {
+    const query = JSON.parse(uri.query) as Record<string, unknown>;
+    for (const key of ["path", "fileName"]) {
+      if (typeof query[key] === "string") candidates.push(query[key] as string);
+    }
+  } catch {
+    // Not a JSON query
+  }
+  candidates.push(uri.path);
+
+  // git: paths are absolute, and the file may be gone (the old side of a deletion);
+  // the server then uses a file from the same directory tree
+  if (uri.scheme === "git") return vscode.Uri.file(candidates[0]);
+
+  for (const candidate of candidates) {
+    const file = vscode.Uri.file(candidate);
+    if (fs.existsSync(file.fsPath)) return file;
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const file = path.join(folder.uri.fsPath, candidate.replace(/^\/+/, ""));
+      if (fs.existsSync(file)) return vscode.Uri.file(file);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,5 @@
+// SHA-256 checksums of the gradle-wrapper.jar of Gradle releases.
+// Regenerate with scripts/update-wrapper-checksums.mjs.
+export const KNOWN_WRAPPER_CHECKSUMS: ReadonlySet<string> = new Set([
+  "423cb469ccc0ecc31f0e4e1c309976198ccb734cdcbb7029d4bda0f18f57e8d9",
+]);
@@ -0,0 +1,206 @@
+import * as fs from "fs";
+import { promisify } from "util";
+import * as zlib from "zlib";
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+/** End of central directory record (22 bytes) plus the longest possible comment. */
+const EOCD_SEARCH_LENGTH = 22 + 0xffff;
+
+/**
+ * Minimal read-only zip reader for jars and the JDK's `src.zip`: reads the
+ * central directory once, then inflates single entries on demand. Zip64 is
+ * not supported; source archives never need it. See [writeZip] for writing.
+ */
+export class ZipArchive {
+  private static readonly cache = new Map<string, { mtimeMs: number; archive: ZipArchive }>();
+  private static readonly MAX_CACHED = 20;
+
+  private constructor(private readonly file: string, private readonly entries: Map<string, ZipEntry>) {}
+
+  /** Open `file`, reusing the parsed directory while the file is unchanged. Throws if it isn't a zip. */
+  static open(file: string): ZipArchive {
+    const mtimeMs = fs.statSync(file).mtimeMs;
+    const cached = ZipArchive.cache.get(file);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.archive;
+
+    const archive = new ZipArchive(file, readCentralDirectory(file));
+    if (ZipArchive.cache.size >= ZipArchive.MAX_CACHED) {
+      ZipArchive.cache.delete(ZipArchive.cache.keys().next().value as string);
+    }
+    ZipArchive.cache.set(file, { mtimeMs, archive });
+    return archive;
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /** Contents of entry `name`, or undefined if there is no such entry. */
+  read(name: string): Buffer | undefined {
+    const entry = this.entries.get(name);
+    if (!entry) return undefined;
+    const fd = fs.openSync(this.file, "r");
+    try {
+      const header = readAt(fd, entry.localHeaderOffset, 30);
+      const data = readAt(fd, this.dataOffset(name, entry, header), entry.compressedSize);
+      if (entry.method === 0) return data;
+      return zlib.inflateRawSync(data);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /** Like `read`, without blocking: for scanning many entries. */
+  async readAsync(name: string): Promise<Buffer | undefined> {
+    const entry = this.entries.get(name);
+    if (!entry) return undefined;
+    const handle = await fs.promises.open(this.file, "r");
+    try {
+      const header = Buffer.alloc(30);
+      await handle.read(header, 0, 30, entry.localHeaderOffset);
+      const data = Buffer.alloc(entry.compressedSize);
+      const { bytesRead } = await handle.read(data, 0, entry.compressedSize, this.dataOffset(name, entry, header));
+      if (entry.method === 0) return data.subarray(0, bytesRead);
+      return await inflateRaw(data.subarray(0, bytesRead));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /** Offset of an entry's data, after its local header; throws for entries that can't be read. */
+  private dataOffset(name: string, entry: ZipEntry, header: Buffer): number {
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip entry ${name} in ${this.file}`);
+    }
+    if (entry.method !== 0 && entry.method !== 8) {
+      throw new Error(`Unsupported compression method ${entry.method} for ${name} in ${this.file}`);
+    }
+    return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  }
+}
+
+/** Write `entries` (deflated) to a new zip file at `file`. */
+export function writeZip(file: string, entries: { name: string; data: Buffer }[]): void {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const { name, data } of entries) {
+    const nameBytes = Buffer.from(name, "utf8");
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(EOCD_SIGNATURE, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  fs.writeFileSync(file, Buffer.concat([...locals, directory, eocd]));
+}
+
+let crcTable: Int32Array | undefined;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Int32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c;
+    }
+  }
+  let crc = -1;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ -1) >>> 0;
+}
+
+function readCentralDirectory(file: string): Map<string, ZipEntry> {
+  const fd = fs.openSync(file, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    const tailStart = Math.max(0, size - EOCD_SEARCH_LENGTH);
+    const tail = readAt(fd, tailStart, size - tailStart);
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) throw new Error(`Not a zip file: ${file}`);
+
+    const count = tail.readUInt16LE(eocd + 10);
+    const directory = readAt(fd, tail.readUInt32LE(eocd + 16), tail.readUInt32LE(eocd + 12));
+    const entries = new Map<string, ZipEntry>();
+    let offset = 0;
+    for (let i = 0; i < count && offset + 46 <= directory.length; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) break;
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString("utf8", offset + 46, offset + 46 + nameLength);
+      entries.set(name, {
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  let read = 0;
+  while (read < length) {
+    const n = fs.readSync(fd, buffer, read, length - read, position + read);
+    if (n === 0) break;
+    read += n;
+  }
+  return buffer.subarray(0, read);
+}
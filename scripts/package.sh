@@ -3,6 +3,14 @@ set -euo pipefail
 
 REPO_ROOT="$(cd "$(dirname "$0")/.." && pwd)"
 
+# A near-empty checksum list makes every Gradle wrapper prompt as unknown
+CHECKSUMS="$REPO_ROOT/client/src/wrapperChecksums.ts"
+CHECKSUM_COUNT=$(grep -cE '^  "[0-9a-f]{64}",$' "$CHECKSUMS" || true)
+if (( CHECKSUM_COUNT < 100 )); then
+  echo "error: $CHECKSUMS lists only $CHECKSUM_COUNT wrapper checksums; run scripts/update-wrapper-checksums.mjs" >&2
+  exit 1
+fi
+
 # Run full build first
 "$REPO_ROOT/scripts/build.sh"
 
@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+// Regenerates client/src/wrapperChecksums.ts from the SHA-256 checksums Gradle
+// publishes for the gradle-wrapper.jar of every release.
+import { writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Gradle has published well over this many distinct wrapper jars; fewer means the download failed.
+const MIN_CHECKSUMS = 100;
+
+const out = join(dirname(fileURLToPath(import.meta.url)), "..", "client", "src", "wrapperChecksums.ts");
+
+const versions = await (await fetch("https://services.gradle.org/versions/all")).json();
+const checksums = new Set();
+for (const { version, wrapperChecksumUrl } of versions) {
+  if (!wrapperChecksumUrl) continue;
+  const response = await fetch(wrapperChecksumUrl);
+  if (!response.ok) {
+    console.warn(`Skipping ${version}: ${response.status}`);
+    continue;
+  }
+  checksums.add((await response.text()).trim());
+}
+
+if (checksums.size < MIN_CHECKSUMS) {
+  console.error(`Only ${checksums.size} checksums downloaded (expected at least ${MIN_CHECKSUMS}); ${out} left unchanged.`);
+  process.exit(1);
+}
+
+const lines = [...checksums].sort().map((checksum) => `  "${checksum}",`);
+writeFileSync(out, [
+  "// SHA-256 checksums of the gradle-wrapper.jar of Gradle releases.",
+  "// Regenerate with scripts/update-wrapper-checksums.mjs.",
+  "export const KNOWN_WRAPPER_CHECKSUMS: ReadonlySet<string> = new Set([",
+  ...lines,
+  "]);",
+  "",
+].join("\n"));
+console.log(`Wrote ${checksums.size} checksums to ${out}`);
@@ -137,7 +137,11 @@ tasks.shadowJar {
     archiveClassifier.set("all")
     archiveVersion.set("")
     manifest {
-        attributes("Main-Class" to "dev.review.lsp.ServerKt")
+        attributes(
+            "Main-Class" to "dev.review.lsp.ServerKt",
+            // Reported in serverInfo; the client warns when it differs from the extension version
+            "Implementation-Version" to project.version
+        )
     }
     mergeServiceFiles()
 }
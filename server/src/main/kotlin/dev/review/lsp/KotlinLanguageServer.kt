@@ -4,11 +4,19 @@ import dev.review.lsp.analysis.AnalysisSession
 import dev.review.lsp.analysis.DiagnosticsPublisher
 import dev.review.lsp.analysis.WorkspaceManager
 import dev.review.lsp.buildsystem.BuildSystemResolver
+import dev.review.lsp.buildsystem.ModuleInfo
+import dev.review.lsp.buildsystem.ProjectModel
+import dev.review.lsp.buildsystem.SourceSets
+import dev.review.lsp.util.ExcludedFiles
+import dev.review.lsp.util.FileSettings
 import dev.review.lsp.util.ProgressReporter
 import dev.review.lsp.util.UriUtil
+import dev.review.lsp.util.VirtualDocuments
 import kotlinx.coroutines.*
 import org.eclipse.lsp4j.*
 import org.eclipse.lsp4j.jsonrpc.messages.Either
+import org.eclipse.lsp4j.jsonrpc.services.JsonNotification
+import org.eclipse.lsp4j.jsonrpc.services.JsonRequest
 import org.eclipse.lsp4j.services.*
 import java.nio.file.Path
 import java.nio.file.Paths
@@ -17,7 +25,10 @@ import java.util.concurrent.Executors
 import java.util.concurrent.ScheduledFuture
 import java.util.concurrent.TimeUnit
 
-class KotlinLanguageServer : LanguageServer, LanguageClientAware {
+class KotlinLanguageServer(
+    /** Called on `exit`; ends the process, or just the connection when serving over a socket. */
+    private val onExit: () -> Unit = { System.exit(0) }
+) : LanguageServer, LanguageClientAware {
 
     private val textDocumentService = KotlinTextDocumentService()
     private val workspaceService = KotlinWorkspaceService()
@@ -25,7 +36,13 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
     private var workspaceRoot: String? = null
     private var rootPath: Path? = null
     private var workspaceManager: WorkspaceManager? = null
-    private var buildVariant: String = "debug"
+    @Volatile private var buildVariant: String = "debug"
+    @Volatile private var moduleVariants: Map<String, String> = emptyMap()
+    @Volatile private var primaryTarget: String? = null
+    /** Whether the client trusts the workspace enough to run its build scripts (Gradle). */
+    @Volatile private var trustedWorkspace: Boolean = true
+    /** `kotlinReview.files.exclude` / `files.maxSizeKb` and the client's folders, applied through [ExcludedFiles]. */
+    @Volatile private var fileSettings = FileSettings()
     private val scope = CoroutineScope(Dispatchers.Default + SupervisorJob())
     private val rebuildScheduler = Executors.newSingleThreadScheduledExecutor { r ->
         Thread(r, "rebuild-debounce").apply { isDaemon = true }
@@ -37,6 +54,8 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
         const val REBUILD_DEBOUNCE_MS = 2000L // 2s — batches burst of generated file events
         const val HEAP_CHECK_INTERVAL_S = 30L
         const val HEAP_WARNING_THRESHOLD = 0.85 // 85%
+        /** Version from the jar manifest; "dev" when running from classes (tests, IDE). */
+        val VERSION: String = KotlinLanguageServer::class.java.`package`?.implementationVersion ?: "dev"
     }
 
     override fun initialize(params: InitializeParams): CompletableFuture<InitializeResult> {
@@ -46,6 +65,15 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
             val initOptions = params.initializationOptions
             if (initOptions is com.google.gson.JsonObject) {
                 initOptions.get("buildVariant")?.asString?.let { buildVariant = it }
+                initOptions.get("moduleVariants")?.takeIf { it.isJsonObject }?.asJsonObject?.let { obj ->
+                    moduleVariants = obj.entrySet()
+                        .filter { it.value.isJsonPrimitive }
+                        .associate { it.key to it.value.asString }
+                }
+                initOptions.get("primaryTarget")?.takeUnless { it.isJsonNull }?.asString
+                    ?.takeIf { it.isNotBlank() }?.let { primaryTarget = it }
+                initOptions.get("trustedWorkspace")?.takeIf { it.isJsonPrimitive }?.let { trustedWorkspace = it.asBoolean }
+                fileSettings = KotlinWorkspaceService.parseFileSettings(initOptions.get("files"))
             }
         } catch (_: Exception) { /* use default */ }
         val capabilities = ServerCapabilities().apply {
@@ -60,7 +88,7 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
             codeActionProvider = Either.forLeft(true)
             completionProvider = CompletionOptions(false, listOf("."))
         }
-        val serverInfo = ServerInfo("kotlin-review-lsp", "0.1.0")
+        val serverInfo = ServerInfo("kotlin-review-lsp", VERSION)
         return CompletableFuture.completedFuture(InitializeResult(capabilities, serverInfo))
     }
 
@@ -77,9 +105,14 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
 
                 val rp = Paths.get(java.net.URI.create(root))
                 rootPath = rp
+                configureExcludedFiles()
 
                 log(MessageType.Info, "Discovering build roots (variant: $buildVariant)...")
-                val wm = WorkspaceManager(rp, buildVariant)
+                if (!trustedWorkspace) {
+                    log(MessageType.Warning, "Untrusted workspace: Gradle is not run, analyzing source directories only")
+                }
+                val wm = WorkspaceManager(rp, buildVariant, moduleVariants, runBuildScripts = trustedWorkspace)
+                wm.primaryTarget = primaryTarget
                 wm.discover()
                 workspaceManager = wm
 
@@ -122,6 +155,9 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
                 workspaceService.onBuildFileChanged = { uri -> scheduleRebuild(uri) }
                 workspaceService.onGeneratedSourcesChanged = { uri -> scheduleRebuild(uri) }
                 workspaceService.onConfigurationChanged = { scheduleRebuild(null) }
+                workspaceService.onPrimaryTargetChanged = { target -> switchPrimaryTarget(target) }
+                workspaceService.onBuildVariantChanged = { variant, overrides -> switchBuildVariant(variant, overrides) }
+                workspaceService.onExcludedFilesChanged = { files -> changeExcludedFiles(files) }
 
                 // Register file watchers for build files
                 registerFileWatchers()
@@ -135,6 +171,131 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
         }
     }
 
+    private fun switchPrimaryTarget(target: String?) {
+        if (target == primaryTarget) return
+        primaryTarget = target
+        log(MessageType.Info, "Primary KMP target for common files: ${target ?: "default"}")
+        scope.launch {
+            workspaceManager?.primaryTarget = target
+            textDocumentService.republishDiagnostics()
+        }
+    }
+
+    private fun switchBuildVariant(variant: String?, overrides: Map<String, String>?) {
+        val newVariant = variant ?: buildVariant
+        val newOverrides = overrides ?: moduleVariants
+        if (newVariant == buildVariant && newOverrides == moduleVariants) return
+        buildVariant = newVariant
+        moduleVariants = newOverrides
+        val overrideInfo = if (newOverrides.isEmpty()) "" else ", overrides: $newOverrides"
+        log(MessageType.Info, "Build variant changed to $newVariant$overrideInfo")
+        workspaceManager?.setVariants(newVariant, newOverrides)
+        scheduleRebuild(null)
+    }
+
+    private fun changeExcludedFiles(files: FileSettings) {
+        if (files == fileSettings) return
+        fileSettings = files
+        log(MessageType.Info, "Excluded files changed (${files.exclude.size} globs, max size ${files.maxSizeKb} KB)")
+        configureExcludedFiles()
+        // Sessions list their source files when built
+        scheduleRebuild(null)
+    }
+
+    /** Globs match relative to the client's workspace folders, or to the root when it sent none. */
+    private fun configureExcludedFiles() {
+        val files = fileSettings
+        ExcludedFiles.configure(files.roots.ifEmpty { listOfNotNull(rootPath) }, files.exclude, files.maxSizeKb)
+    }
+
+    @JsonRequest("kotlinReview/kmpTargets")
+    fun kmpTargets(params: KmpTargetsParams): CompletableFuture<KmpTargetsResult> {
+        return CompletableFuture.supplyAsync {
+            val facade = try {
+                textDocumentService.facadeForUri(params.uri)
+            } catch (_: Exception) { null }
+            KmpTargetsResult(
+                targets = facade?.getAvailableTargets() ?: emptyList(),
+                platform = facade?.platformForFile(UriUtil.toPath(params.uri)),
+                primaryTarget = primaryTarget
+            )
+        }
+    }
+
+    /** Source set membership of a file, or null if it isn't in the project model. */
+    @JsonRequest("kotlinReview/sourceSetInfo")
+    fun sourceSetInfo(params: SourceSetInfoParams): CompletableFuture<SourceSetInfoResult?> {
+        return CompletableFuture.supplyAsync {
+            val path = try { UriUtil.toPath(params.uri) } catch (_: Exception) { null }
+            val model = path?.let { workspaceManager?.modelForFile(it) }
+            val membership = if (path != null && model != null) SourceSets.forFile(model, path) else null
+            membership?.let {
+                SourceSetInfoResult(
+                    module = it.moduleName,
+                    sourceSet = it.sourceSet,
+                    isTest = it.isTest,
+                    dependsOn = it.dependsOn,
+                    targets = it.targets.map { target -> target.name },
+                    platforms = it.targets.map { target -> target.platform.name }.distinct()
+                )
+            }
+        }
+    }
+
+    /** Build roots and the project model resolved for each, for the client's project view. */
+    @JsonRequest("kotlinReview/projectModel")
+    fun projectModel(): CompletableFuture<ProjectModelResult> {
+        return CompletableFuture.supplyAsync {
+            val roots = workspaceManager?.allBuildRoots() ?: emptyList()
+            ProjectModelResult(roots.map { root ->
+                val model = root.model
+                BuildRootInfo(
+                    rootDir = root.rootDir.toString(),
+                    buildSystem = root.provider.id,
+                    resolved = model != null,
+                    isMultiplatform = model?.isMultiplatform ?: false,
+                    modules = model?.modules?.map { module -> moduleModelInfo(model, module) } ?: emptyList()
+                )
+            })
+        }
+    }
+
+    private fun moduleModelInfo(model: ProjectModel, module: ModuleInfo) = ModuleModelInfo(
+        name = module.name,
+        isAndroid = module.isAndroid,
+        variant = if (module.isAndroid) model.variantFor(module) else null,
+        kotlinVersion = module.kotlinVersion,
+        jvmTarget = module.jvmTarget,
+        sourceRoots = module.sourceRoots.map { it.toString() },
+        testSourceRoots = module.testSourceRoots.map { it.toString() },
+        classpath = module.classpath.map { it.toString() },
+        testClasspath = module.testClasspath.map { it.toString() },
+        targets = module.targets.map { target ->
+            TargetModelInfo(
+                name = target.name,
+                platform = target.platform.name,
+                sourceRoots = target.sourceRoots.map { it.toString() },
+                testSourceRoots = target.testSourceRoots.map { it.toString() },
+                classpath = target.classpath.map { it.toString() },
+                testClasspath = target.testClasspath.map { it.toString() }
+            )
+        }
+    )
+
+    /** Sent before a non-file document is opened: the workspace file it stands for. */
+    @JsonNotification("kotlinReview/virtualDocument")
+    fun virtualDocument(params: VirtualDocumentParams) {
+        VirtualDocuments.forUri(params.uri).workspacePath = params.workspaceUri?.let {
+            try { UriUtil.toPath(it) } catch (_: Exception) { null }
+        }
+    }
+
+    @JsonNotification("kotlinReview/rebuild")
+    fun rebuild() {
+        log(MessageType.Info, "Rebuild requested by client")
+        scheduleRebuild(null)
+    }
+
     private fun registerFileWatchers() {
         val c = client ?: return
         val watchers = listOf(
@@ -154,7 +315,7 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
         c.registerCapability(RegistrationParams(listOf(registration)))
     }
 
-    private fun checkAndroidBuildHint(model: dev.review.lsp.buildsystem.ProjectModel, c: LanguageClient) {
+    private fun checkAndroidBuildHint(model: ProjectModel, c: LanguageClient) {
         val androidModules = model.modules.filter { it.isAndroid }
         if (androidModules.isEmpty()) return
 
@@ -200,7 +361,7 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
                 MessageType.Warning,
                 "Kotlin Review: heap usage is high (${usedMb}MB / ${maxMb}MB). " +
                     "Consider increasing memory via Settings > Kotlin Review > Server: JVM Args, " +
-                    "e.g. add \"-Xmx6g\". Restart VS Code after changing."
+                    "e.g. add \"-Xmx6g\", then restart the language server."
             ))
         }
     }
@@ -279,7 +440,7 @@ class KotlinLanguageServer : LanguageServer, LanguageClientAware {
     }
 
     override fun exit() {
-        System.exit(0)
+        onExit()
     }
 
     override fun getTextDocumentService(): TextDocumentService = textDocumentService
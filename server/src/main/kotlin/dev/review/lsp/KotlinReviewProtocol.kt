@@ -0,0 +1,82 @@
+package dev.review.lsp
+
+/*
+ * Parameter and result types for the custom `kotlinReview/...` requests
+ * exchanged with the VS Code client. Serialized by LSP4J's Gson.
+ */
+
+data class KmpTargetsParams(
+    val uri: String
+)
+
+data class KmpTargetsResult(
+    /** KMP platforms with an analysis session for the file's build root (e.g. "JVM", "JS"). */
+    val targets: List<String>,
+    /** Platform the file is currently analyzed with, or null for non-KMP projects. */
+    val platform: String?,
+    /** User-selected platform for shared source sets, or null for the default. */
+    val primaryTarget: String?
+)
+
+data class SourceSetInfoParams(
+    val uri: String
+)
+
+data class SourceSetInfoResult(
+    /** Gradle module (project) name. */
+    val module: String,
+    /** Source set directory name, e.g. "iosArm64Main", "commonTest", "debug". */
+    val sourceSet: String,
+    val isTest: Boolean,
+    /** Source sets this one depends on, nearest first. */
+    val dependsOn: List<String>,
+    /** Targets the source set is compiled for, e.g. "iosArm64"; empty if unknown. */
+    val targets: List<String>,
+    /** Distinct platforms of [targets] (e.g. "NATIVE"). */
+    val platforms: List<String>
+)
+
+data class VirtualDocumentParams(
+    /** Document URI with a non-file scheme, e.g. `git:` or `untitled:`. */
+    val uri: String,
+    /** `file:` URI of the workspace file the document is a version of, or null if there is none. */
+    val workspaceUri: String?
+)
+
+data class ProjectModelResult(
+    val roots: List<BuildRootInfo>
+)
+
+data class BuildRootInfo(
+    val rootDir: String,
+    /** Build system provider id, e.g. "gradle" or "manual". */
+    val buildSystem: String,
+    /** False until the root is resolved; multi-root workspaces resolve roots on first use. */
+    val resolved: Boolean,
+    val isMultiplatform: Boolean,
+    val modules: List<ModuleModelInfo>
+)
+
+data class ModuleModelInfo(
+    val name: String,
+    val isAndroid: Boolean,
+    /** Android build variant the module was resolved with, or null for non-Android modules. */
+    val variant: String?,
+    val kotlinVersion: String?,
+    val jvmTarget: String?,
+    val sourceRoots: List<String>,
+    val testSourceRoots: List<String>,
+    val classpath: List<String>,
+    val testClasspath: List<String>,
+    val targets: List<TargetModelInfo>
+)
+
+data class TargetModelInfo(
+    val name: String,
+    /** KMP platform, e.g. "JVM" or "NATIVE". */
+    val platform: String,
+    val sourceRoots: List<String>,
+    val testSourceRoots: List<String>,
+    val classpath: List<String>,
+    val testClasspath: List<String>
+)
@@ -6,6 +6,7 @@ import dev.review.lsp.compiler.CompilerFacade
 import dev.review.lsp.features.*
 import dev.review.lsp.util.ProgressReporter
 import dev.review.lsp.util.UriUtil
+import dev.review.lsp.util.VirtualDocuments
 import kotlinx.coroutines.*
 import org.eclipse.lsp4j.*
 import org.eclipse.lsp4j.jsonrpc.messages.Either
@@ -108,7 +109,7 @@ class KotlinTextDocumentService : TextDocumentService {
      * Resolve the facade for a given URI. In single-root mode, returns the
      * cached facade. In multi-root mode, resolves via WorkspaceManager.
      */
-    private fun facadeForUri(uri: String): CompilerFacade? {
+    internal fun facadeForUri(uri: String): CompilerFacade? {
         val wm = workspaceManager
         if (wm != null && !wm.isSingleRoot()) {
             return runBlocking { wm.facadeForFile(UriUtil.toPath(uri)) }
@@ -116,6 +117,18 @@ class KotlinTextDocumentService : TextDocumentService {
         return facade
     }
 
+    /** Re-publish diagnostics for every open document, e.g. after the primary KMP target changed. */
+    fun republishDiagnostics() {
+        val c = client ?: return
+        for ((uri, version) in documentVersions) {
+            val f = facadeForUri(uri) ?: continue
+            val path = UriUtil.toPath(uri)
+            val publisher = diagnosticsPublisher ?: DiagnosticsPublisher(f, c)
+            publisher.invalidateCacheForFile(path)
+            publisher.publishDiagnosticsAsync(path, uri, version) { documentVersions[uri] }
+        }
+    }
+
     fun shutdown() {
         debounceScheduler.shutdownNow()
         scope.cancel()
@@ -125,6 +138,10 @@ class KotlinTextDocumentService : TextDocumentService {
 
     override fun didOpen(params: DidOpenTextDocumentParams) {
         val uri = params.textDocument.uri
+        if (VirtualDocuments.isVirtual(uri)) {
+            updateVirtualDocument(uri, params.textDocument.text)
+            return
+        }
         val version = params.textDocument.version
         documentVersions[uri] = version
         client?.logMessage(MessageParams(MessageType.Info, "Opened: $uri"))
@@ -182,10 +199,29 @@ class KotlinTextDocumentService : TextDocumentService {
         diagnosticsPublisher?.publishDiagnosticsAsync(path, uri, version) { documentVersions[uri] }
     }
 
+    /**
+     * Documents from diff views and other non-file schemes are analyzed in memory
+     * (see [VirtualDocuments]). No diagnostics are published for them: they are
+     * usually an older revision under review, not code being edited.
+     */
+    private fun updateVirtualDocument(uri: String, content: String) {
+        val document = VirtualDocuments.forUri(uri)
+        document.content = content
+        try {
+            facadeForUri(uri)?.updateFileContent(document.path, content)
+        } catch (e: Exception) {
+            System.err.println("[service] Failed to update virtual document $uri: ${e.message}")
+        }
+    }
+
     override fun didChange(params: DidChangeTextDocumentParams) {
         val uri = params.textDocument.uri
         val version = params.textDocument.version
         val content = params.contentChanges.lastOrNull()?.text ?: return
+        if (VirtualDocuments.isVirtual(uri)) {
+            updateVirtualDocument(uri, content)
+            return
+        }
 
         documentVersions[uri] = version
 
@@ -233,6 +269,10 @@ class KotlinTextDocumentService : TextDocumentService {
 
     override fun didClose(params: DidCloseTextDocumentParams) {
         val uri = params.textDocument.uri
+        if (VirtualDocuments.isVirtual(uri)) {
+            VirtualDocuments.remove(uri)
+            return
+        }
         documentVersions.remove(uri)
         pendingDocuments.remove(uri)
         lastSavedContent.remove(uri)
@@ -252,6 +292,7 @@ class KotlinTextDocumentService : TextDocumentService {
 
     override fun didSave(params: DidSaveTextDocumentParams) {
         val uri = params.textDocument.uri
+        if (VirtualDocuments.isVirtual(uri)) return
 
         // Cancel pending tier diagnostics — didSave does its own authoritative rebuild
         pendingTier1.remove(uri)?.cancel(false)
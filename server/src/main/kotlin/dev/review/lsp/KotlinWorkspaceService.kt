@@ -1,8 +1,14 @@
 package dev.review.lsp
 
+import com.google.gson.JsonElement
+import com.google.gson.JsonObject
+import dev.review.lsp.util.ExcludedFiles
+import dev.review.lsp.util.FileSettings
 import org.eclipse.lsp4j.DidChangeConfigurationParams
 import org.eclipse.lsp4j.DidChangeWatchedFilesParams
 import org.eclipse.lsp4j.services.WorkspaceService
+import java.nio.file.InvalidPathException
+import java.nio.file.Paths
 
 class KotlinWorkspaceService : WorkspaceService {
 
@@ -15,8 +21,57 @@ class KotlinWorkspaceService : WorkspaceService {
     /** Callback invoked when VS Code configuration changes. */
     var onConfigurationChanged: (() -> Unit)? = null
 
+    /** Callback invoked when the client selects a primary KMP target for common files (null = default). */
+    var onPrimaryTargetChanged: ((target: String?) -> Unit)? = null
+
+    /**
+     * Callback invoked when the client changes the Android build variant. Either argument
+     * is null when the client didn't send it.
+     */
+    var onBuildVariantChanged: ((variant: String?, moduleVariants: Map<String, String>?) -> Unit)? = null
+
+    /** Callback invoked when the client changes the excluded files (`files.exclude` globs, `files.maxSizeKb`) or its folders. */
+    var onExcludedFilesChanged: ((files: FileSettings) -> Unit)? = null
+
     override fun didChangeConfiguration(params: DidChangeConfigurationParams) {
-        onConfigurationChanged?.invoke()
+        // The client sends the live-applicable settings it knows about, using the same
+        // keys as initializationOptions. Anything else falls back to a full rebuild.
+        val settings = params.settings as? JsonObject
+        var handled = false
+
+        if (settings != null && settings.has("primaryTarget")) {
+            // Switching the primary target only re-routes shared files — no session rebuild needed
+            val target = settings.get("primaryTarget")
+                .takeUnless { it.isJsonNull }
+                ?.asString
+                ?.takeIf { it.isNotBlank() }
+            onPrimaryTargetChanged?.invoke(target)
+            handled = true
+        }
+
+        if (settings != null && (settings.has("buildVariant") || settings.has("moduleVariants"))) {
+            val variant = settings.get("buildVariant")
+                ?.takeIf { it.isJsonPrimitive }
+                ?.asString
+                ?.takeIf { it.isNotBlank() }
+            val moduleVariants = settings.get("moduleVariants")
+                ?.takeIf { it.isJsonObject }
+                ?.asJsonObject
+                ?.entrySet()
+                ?.filter { it.value.isJsonPrimitive }
+                ?.associate { it.key to it.value.asString }
+            onBuildVariantChanged?.invoke(variant, moduleVariants)
+            handled = true
+        }
+
+        if (settings != null && settings.has("files")) {
+            onExcludedFilesChanged?.invoke(parseFileSettings(settings.get("files")))
+            handled = true
+        }
+
+        if (!handled) {
+            onConfigurationChanged?.invoke()
+        }
     }
 
     override fun didChangeWatchedFiles(params: DidChangeWatchedFilesParams) {
@@ -28,7 +83,7 @@ class KotlinWorkspaceService : WorkspaceService {
             if (buildFileUri == null && BUILD_FILE_PATTERNS.any { uri.endsWith(it) }) {
                 buildFileUri = uri
             }
-            if (generatedUri == null && uri.contains("build/generated/")) {
+            if (generatedUri == null && uri.contains("build/generated/") && !ExcludedFiles.isExcluded(uri)) {
                 generatedUri = uri
             }
         }
@@ -43,6 +98,22 @@ class KotlinWorkspaceService : WorkspaceService {
     }
 
     companion object {
+        /** `files` settings as sent by the client: `{ exclude: string[], maxSizeKb: number, roots: string[] }`. */
+        fun parseFileSettings(files: JsonElement?): FileSettings {
+            val obj = files?.takeIf { it.isJsonObject }?.asJsonObject ?: return FileSettings()
+            val exclude = stringList(obj.get("exclude"))
+            val maxSizeKb = obj.get("maxSizeKb")?.takeIf { it.isJsonPrimitive }?.asInt ?: 0
+            val roots = stringList(obj.get("roots")).mapNotNull { try { Paths.get(it) } catch (_: InvalidPathException) { null } }
+            return FileSettings(exclude, maxSizeKb, roots)
+        }
+
+        private fun stringList(element: JsonElement?): List<String> =
+            element?.takeIf { it.isJsonArray }
+                ?.asJsonArray
+                ?.filter { it.isJsonPrimitive }
+                ?.map { it.asString }
+                ?: emptyList()
+
         private val BUILD_FILE_PATTERNS = listOf(
             "build.gradle.kts",
             "build.gradle",
@@ -3,8 +3,18 @@ package dev.review.lsp
 import org.eclipse.lsp4j.launch.LSPLauncher
 import java.io.OutputStream
 import java.io.PrintStream
+import java.net.InetAddress
+import java.net.ServerSocket
+
+fun main(args: Array<String>) {
+    val port = args.indexOf("--port").takeIf { it >= 0 }?.let { args.getOrNull(it + 1)?.toIntOrNull() }
+    if (port != null) {
+        // stdout isn't the protocol stream here; keep library output visible
+        System.setOut(System.err)
+        listen(port)
+        return
+    }
 
-fun main() {
     // Capture stdout for LSP, then redirect System.out to stderr so that
     // any library (e.g. Gradle Tooling API) writing to stdout doesn't
     // corrupt the LSP protocol stream.
@@ -16,3 +26,32 @@ fun main() {
     server.connect(launcher.remoteProxy)
     launcher.startListening().get()
 }
+
+/**
+ * Serve clients connecting to [port] on the loopback interface, one at a time,
+ * each with a fresh server. Used to run the server from an IDE for debugging,
+ * with the extension's `kotlinReview.server.connect` setting pointing at it.
+ */
+private fun listen(port: Int) {
+    ServerSocket(port, 1, InetAddress.getLoopbackAddress()).use { serverSocket ->
+        System.err.println("[server] Listening on ${serverSocket.localSocketAddress}")
+        while (true) {
+            serverSocket.accept().use { socket ->
+                System.err.println("[server] Client connected from ${socket.remoteSocketAddress}")
+                // `exit` ends this connection rather than the process
+                val server = KotlinLanguageServer(onExit = { socket.close() })
+                val launcher = LSPLauncher.createServerLauncher(server, socket.getInputStream(), socket.getOutputStream())
+                server.connect(launcher.remoteProxy)
+                try {
+                    launcher.startListening().get()
+                } catch (e: Exception) {
+                    System.err.println("[server] Connection ended: ${e.message}")
+                } finally {
+                    // The client may have gone away without a shutdown request
+                    runCatching { server.shutdown() }
+                }
+                System.err.println("[server] Client disconnected")
+            }
+        }
+    }
+}
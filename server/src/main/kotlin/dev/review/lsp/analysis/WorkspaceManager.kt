@@ -4,7 +4,9 @@ import dev.review.lsp.buildsystem.BuildSystemProvider
 import dev.review.lsp.buildsystem.BuildSystemResolver
 import dev.review.lsp.buildsystem.ProjectModel
 import dev.review.lsp.buildsystem.ProjectModelCache
+import dev.review.lsp.buildsystem.moduleVariantsForRoot
 import dev.review.lsp.compiler.CompilerFacade
+import dev.review.lsp.util.VirtualDocuments
 import java.nio.file.Path
 import java.util.concurrent.ConcurrentHashMap
 
@@ -19,7 +21,10 @@ import java.util.concurrent.ConcurrentHashMap
  */
 class WorkspaceManager(
     private val workspaceRoot: Path,
-    private val variant: String
+    @Volatile private var variant: String,
+    @Volatile private var moduleVariants: Map<String, String> = emptyMap(),
+    /** False in untrusted workspaces: build scripts aren't run, roots resolve to source directories only. */
+    private val runBuildScripts: Boolean = true
 ) {
     data class BuildRoot(
         val provider: BuildSystemProvider,
@@ -31,12 +36,28 @@ class WorkspaceManager(
     private val buildRoots = ConcurrentHashMap<Path, BuildRoot>()
     private val fileToRootCache = ConcurrentHashMap<Path, Path>()
 
+    /**
+     * KMP platform used to analyze shared source sets (e.g. commonMain).
+     * Applied to every resolved facade and to facades created later.
+     */
+    @Volatile
+    var primaryTarget: String? = null
+        set(value) {
+            field = value
+            for (root in buildRoots.values) {
+                root.session?.facade?.setPrimaryTarget(value)
+            }
+        }
+
+    private fun buildSystemResolver(): BuildSystemResolver =
+        if (runBuildScripts) BuildSystemResolver() else BuildSystemResolver(providers = emptyList())
+
     /**
      * Eagerly discover all build roots in the workspace. Does NOT resolve
      * any of them (no Gradle calls). Call [resolveRoot] to lazily resolve.
      */
     fun discover() {
-        val resolver = BuildSystemResolver()
+        val resolver = buildSystemResolver()
         val discovered = resolver.discoverBuildRoots(workspaceRoot)
         for ((provider, rootDir) in discovered) {
             buildRoots[rootDir.normalize()] = BuildRoot(provider, rootDir)
@@ -56,10 +77,11 @@ class WorkspaceManager(
         root.session?.let { return it.facade }
 
         return try {
-            val resolver = BuildSystemResolver()
+            val resolver = buildSystemResolver()
             // Use the resolver's cache-aware resolve, scoped to this root
-            val (_, model) = resolver.resolve(normalizedRoot, variant)
+            val (_, model) = resolver.resolve(normalizedRoot, variant, moduleVariantsForRoot(moduleVariants, workspaceRoot, normalizedRoot))
             val session = AnalysisSession(model)
+            session.facade.setPrimaryTarget(primaryTarget)
             root.model = model
             root.session = session
             System.err.println("[workspace] Resolved build root: ${normalizedRoot.fileName} (${model.modules.size} modules)")
@@ -75,7 +97,8 @@ class WorkspaceManager(
      * Uses a cache for repeated lookups.
      */
     fun buildRootForFile(file: Path): Path? {
-        val normalizedFile = file.normalize()
+        // Virtual documents (e.g. the old side of a diff) belong to their workspace file's root
+        val normalizedFile = (VirtualDocuments.workspacePathOf(file) ?: return null).normalize()
 
         fileToRootCache[normalizedFile]?.let { return it }
 
@@ -123,9 +146,10 @@ class WorkspaceManager(
         val existingSession = root.session ?: return resolveRoot(rootDir)
 
         return try {
-            val resolver = BuildSystemResolver()
-            val (_, model) = resolver.resolve(normalizedRoot, variant)
+            val resolver = buildSystemResolver()
+            val (_, model) = resolver.resolve(normalizedRoot, variant, moduleVariantsForRoot(moduleVariants, workspaceRoot, normalizedRoot))
             val newFacade = existingSession.rebuild(model)
+            newFacade.setPrimaryTarget(primaryTarget)
             root.model = model
             System.err.println("[workspace] Rebuilt build root: ${normalizedRoot.fileName} (${model.modules.size} modules)")
             newFacade
@@ -135,6 +159,15 @@ class WorkspaceManager(
         }
     }
 
+    /**
+     * Change the Android build variant used by subsequent [resolveRoot] and
+     * [rebuildRoot] calls. Existing sessions keep their model until rebuilt.
+     */
+    fun setVariants(variant: String, moduleVariants: Map<String, String>) {
+        this.variant = variant
+        this.moduleVariants = moduleVariants
+    }
+
     /**
      * Check if a build root has been resolved (session created).
      */
@@ -153,6 +186,11 @@ class WorkspaceManager(
      */
     fun allRoots(): Set<Path> = buildRoots.keys.toSet()
 
+    /**
+     * Get all discovered build roots, resolved or not, ordered by directory.
+     */
+    fun allBuildRoots(): List<BuildRoot> = buildRoots.values.sortedBy { it.rootDir.toString() }
+
     /**
      * Get the single build root (convenience for single-root workspaces).
      * Throws if there are 0 or >1 roots.
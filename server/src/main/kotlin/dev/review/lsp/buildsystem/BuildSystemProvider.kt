@@ -8,5 +8,12 @@ interface BuildSystemProvider {
     val priority: Int
 
     suspend fun resolve(workspaceRoot: Path, variant: String = "debug"): ProjectModel
+
+    /**
+     * Resolve with per-module variant overrides (Gradle path -> variant); modules
+     * not in the map use [variant]. Providers without build variants ignore the map.
+     */
+    suspend fun resolve(workspaceRoot: Path, variant: String, moduleVariants: Map<String, String>): ProjectModel =
+        resolve(workspaceRoot, variant)
     suspend fun resolveModule(workspaceRoot: Path, moduleName: String): ModuleInfo
 }
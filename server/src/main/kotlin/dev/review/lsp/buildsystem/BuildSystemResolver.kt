@@ -119,22 +119,29 @@ class BuildSystemResolver(
             .maxByOrNull { it.priority }
     }
 
-    suspend fun resolve(workspaceRoot: Path, variant: String = "debug"): Pair<BuildSystemProvider, ProjectModel> {
+    suspend fun resolve(
+        workspaceRoot: Path,
+        variant: String = "debug",
+        moduleVariants: Map<String, String> = emptyMap()
+    ): Pair<BuildSystemProvider, ProjectModel> {
         val (provider, projectDir) = detect(workspaceRoot)
 
-        // Try disk cache first (skips Gradle entirely if build files unchanged)
+        // Try disk cache first (skips Gradle entirely if build files and variants unchanged)
         if (provider !== manualProvider) {
             val cache = ProjectModelCache(projectDir)
             val cached = cache.load()
-            if (cached != null) {
+            if (cached != null && cached.variant == variant && cached.moduleVariants == moduleVariants) {
                 System.err.println("[cache] Using cached project model (${cached.modules.size} modules)")
-                return provider to cached.copy(projectDir = projectDir, variant = variant)
+                return provider to cached.copy(projectDir = projectDir)
+            }
+            if (cached != null) {
+                System.err.println("[cache] Build variant changed, re-resolving project model")
             }
         }
 
         return try {
-            val model = provider.resolve(projectDir, variant)
-            val result = model.copy(projectDir = projectDir, variant = variant)
+            val model = provider.resolve(projectDir, variant, moduleVariants)
+            val result = model.copy(projectDir = projectDir, variant = variant, moduleVariants = moduleVariants)
             // Save to disk cache for next startup
             if (provider !== manualProvider) {
                 ProjectModelCache(projectDir).save(result)
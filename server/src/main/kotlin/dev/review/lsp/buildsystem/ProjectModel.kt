@@ -6,8 +6,12 @@ data class ProjectModel(
     val modules: List<ModuleInfo>,
     val projectDir: Path? = null,
     val variant: String = "debug",
-    val isMultiplatform: Boolean = false
-)
+    val isMultiplatform: Boolean = false,
+    /** Per-module Android variant overrides (Gradle path -> variant). */
+    val moduleVariants: Map<String, String> = emptyMap()
+) {
+    fun variantFor(module: ModuleInfo): String = module.gradlePath?.let { moduleVariants[it] } ?: variant
+}
 
 data class ModuleInfo(
     val name: String,
@@ -18,9 +22,31 @@ data class ModuleInfo(
     val kotlinVersion: String?,
     val jvmTarget: String?,
     val isAndroid: Boolean = false,
-    val targets: List<KmpTarget> = emptyList()
+    val targets: List<KmpTarget> = emptyList(),
+    /** Gradle path derived from the module directory (see [gradlePathOf]), or null if it's unknown. */
+    val gradlePath: String? = null
 )
 
+/**
+ * Gradle path of the project in [moduleDir] of the build at [rootDir], derived
+ * from directories like the client does: ":" for the root, ":feature:home".
+ */
+fun gradlePathOf(rootDir: Path, moduleDir: Path): String =
+    ":" + rootDir.normalize().relativize(moduleDir.normalize()).joinToString(":")
+
+/**
+ * The `moduleVariants` overrides for the build at [rootDir], keyed by Gradle
+ * path. The client keys modules of the build at [workspaceRoot] by Gradle path
+ * (":app") and prefixes those of builds below it with the build's directory
+ * relative to [workspaceRoot] ("mobile:app").
+ */
+fun moduleVariantsForRoot(moduleVariants: Map<String, String>, workspaceRoot: Path, rootDir: Path): Map<String, String> {
+    val prefix = workspaceRoot.normalize().relativize(rootDir.normalize()).joinToString("/")
+    return moduleVariants
+        .filterKeys { it.substringBefore(':') == prefix && it.contains(':') }
+        .mapKeys { ":" + it.key.substringAfter(':') }
+}
+
 enum class KmpPlatform {
     JVM, ANDROID, NATIVE, JS
 }
@@ -81,6 +81,9 @@ class ProjectModelCache(private val projectDir: Path) {
         val json = buildJsonObject {
             put("buildFilesHash", hash)
             put("variant", model.variant)
+            putJsonObject("moduleVariants") {
+                for ((module, variant) in model.moduleVariants) put(module, variant)
+            }
             put("isMultiplatform", model.isMultiplatform)
             putJsonArray("modules") {
                 for (m in model.modules) {
@@ -93,6 +96,7 @@ class ProjectModelCache(private val projectDir: Path) {
                         put("kotlinVersion", m.kotlinVersion)
                         put("jvmTarget", m.jvmTarget)
                         put("isAndroid", m.isAndroid)
+                        put("gradlePath", m.gradlePath)
                         putJsonArray("targets") {
                             for (t in m.targets) {
                                 addJsonObject {
@@ -124,6 +128,7 @@ class ProjectModelCache(private val projectDir: Path) {
                 kotlinVersion = obj["kotlinVersion"]?.jsonPrimitive?.contentOrNull,
                 jvmTarget = obj["jvmTarget"]?.jsonPrimitive?.contentOrNull,
                 isAndroid = obj["isAndroid"]?.jsonPrimitive?.boolean ?: false,
+                gradlePath = obj["gradlePath"]?.jsonPrimitive?.contentOrNull,
                 targets = obj["targets"]!!.jsonArray.map { tElem ->
                     val tObj = tElem.jsonObject
                     KmpTarget(
@@ -141,6 +146,8 @@ class ProjectModelCache(private val projectDir: Path) {
             modules = modules,
             variant = root["variant"]?.jsonPrimitive?.content ?: "debug",
             isMultiplatform = root["isMultiplatform"]?.jsonPrimitive?.boolean ?: false,
+            moduleVariants = root["moduleVariants"]?.jsonObject
+                ?.mapValues { it.value.jsonPrimitive.content } ?: emptyMap(),
         )
     }
 }
@@ -0,0 +1,124 @@
+package dev.review.lsp.buildsystem
+
+import java.nio.file.Path
+
+data class CompiledTarget(
+    val name: String,
+    val platform: KmpPlatform
+)
+
+data class SourceSetMembership(
+    val moduleName: String,
+    /** Source set directory name, e.g. "iosArm64Main", "commonTest", "debug", "main". */
+    val sourceSet: String,
+    val isTest: Boolean,
+    /** Source sets this one depends on, nearest first (e.g. iosMain, nativeMain, commonMain). */
+    val dependsOn: List<String>,
+    /** Targets the source set is compiled for; empty if the model doesn't know the source set. */
+    val targets: List<CompiledTarget>
+)
+
+/**
+ * Works out which source set a file belongs to from the source roots in a
+ * [ProjectModel]. The model has no explicit dependsOn graph, so it is derived
+ * from the target source roots: a source set shared by fewer targets is
+ * nearer in the chain (iosArm64Main -> iosMain -> nativeMain -> commonMain).
+ */
+object SourceSets {
+
+    private data class RootMatch(val module: ModuleInfo, val root: Path, val isTest: Boolean)
+
+    fun forFile(model: ProjectModel, file: Path): SourceSetMembership? {
+        val path = file.toAbsolutePath().normalize()
+        val match = model.modules.asSequence()
+            .flatMap { module -> allRoots(module).map { (root, isTest) -> RootMatch(module, root, isTest) } }
+            .filter { path.startsWith(it.root) }
+            .maxByOrNull { it.root.nameCount }
+            ?: return forUnknownSourceSet(model, path)
+
+        val module = match.module
+        val name = sourceSetName(match.root)
+        if (module.targets.isEmpty()) {
+            val platform = if (module.isAndroid) KmpPlatform.ANDROID else KmpPlatform.JVM
+            return SourceSetMembership(
+                moduleName = module.name,
+                sourceSet = name,
+                isTest = match.isTest,
+                dependsOn = if (name == "main") emptyList() else listOf("main"),
+                targets = listOf(CompiledTarget(platform.name.lowercase(), platform))
+            )
+        }
+
+        val containing = module.targets.filter { target ->
+            targetRoots(target, match.isTest).any { it.toAbsolutePath().normalize() == match.root }
+        }
+        val common = if (match.isTest) "commonTest" else "commonMain"
+        val intermediates = if (containing.isEmpty()) emptyList() else {
+            val shared = containing
+                .map { target -> targetRoots(target, match.isTest).map { sourceSetName(it) }.toSet() }
+                .reduce { a, b -> a intersect b } - name - common
+            shared.sortedWith(compareBy<String>({ sourceSet ->
+                module.targets.count { target -> targetRoots(target, match.isTest).any { sourceSetName(it) == sourceSet } }
+            }, { it }))
+        }
+        return SourceSetMembership(
+            moduleName = module.name,
+            sourceSet = name,
+            isTest = match.isTest,
+            dependsOn = if (name == common) emptyList() else intermediates + common,
+            // Module-level roots (commonMain/commonTest) are compiled for every target
+            targets = containing.ifEmpty { module.targets }.map { CompiledTarget(it.name, it.platform) }
+        )
+    }
+
+    /**
+     * Name of the source set a root belongs to: `src/<name>/kotlin` -> `<name>`,
+     * generated roots -> their path below `build/generated`.
+     */
+    fun sourceSetName(root: Path): String {
+        val parent = root.parent
+        if (parent?.parent?.fileName?.toString() == "src") return parent.fileName.toString()
+        val names = root.map { it.toString() }
+        val generated = names.indexOf("generated")
+        if (generated >= 0 && generated < names.size - 1) {
+            return "generated/" + names.drop(generated + 1).joinToString("/")
+        }
+        return root.fileName?.toString() ?: root.toString()
+    }
+
+    /**
+     * A file under `<module>/src/<name>/` that isn't in any resolved source root, e.g. a
+     * custom intermediate source set like `desktopMain`. Only the name can be given.
+     */
+    private fun forUnknownSourceSet(model: ProjectModel, path: Path): SourceSetMembership? {
+        for (module in model.modules) {
+            val srcDirs = allRoots(module).mapNotNull { (root, _) ->
+                root.parent?.parent?.takeIf { it.fileName?.toString() == "src" }
+            }.distinct()
+            for (srcDir in srcDirs) {
+                if (!path.startsWith(srcDir) || path.nameCount <= srcDir.nameCount + 1) continue
+                val name = path.getName(srcDir.nameCount).toString()
+                val isTest = name.endsWith("Test") || name == "test"
+                val common = if (isTest) "commonTest" else "commonMain"
+                val dependsOn = when {
+                    module.targets.isEmpty() -> if (name == "main") emptyList() else listOf("main")
+                    name == common -> emptyList()
+                    else -> listOf(common)
+                }
+                return SourceSetMembership(module.name, name, isTest, dependsOn, emptyList())
+            }
+        }
+        return null
+    }
+
+    private fun allRoots(module: ModuleInfo): List<Pair<Path, Boolean>> {
+        val roots = module.sourceRoots.map { it to false } + module.testSourceRoots.map { it to true } +
+            module.targets.flatMap { target ->
+                target.sourceRoots.map { it to false } + target.testSourceRoots.map { it to true }
+            }
+        return roots.map { (root, isTest) -> root.toAbsolutePath().normalize() to isTest }
+    }
+
+    private fun targetRoots(target: KmpTarget, isTest: Boolean): List<Path> =
+        if (isTest) target.testSourceRoots else target.sourceRoots
+}
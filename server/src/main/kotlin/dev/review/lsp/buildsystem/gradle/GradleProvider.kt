@@ -5,6 +5,7 @@ import dev.review.lsp.buildsystem.KmpPlatform
 import dev.review.lsp.buildsystem.KmpTarget
 import dev.review.lsp.buildsystem.ModuleInfo
 import dev.review.lsp.buildsystem.ProjectModel
+import dev.review.lsp.buildsystem.gradlePathOf
 import org.gradle.tooling.GradleConnector
 import org.gradle.tooling.model.idea.IdeaProject
 import java.io.OutputStream
@@ -16,7 +17,19 @@ class GradleProvider : BuildSystemProvider {
     override val markerFiles = listOf("build.gradle.kts", "build.gradle", "settings.gradle.kts", "settings.gradle")
     override val priority = 10
 
-    override suspend fun resolve(workspaceRoot: Path, variant: String): ProjectModel {
+    private companion object {
+        val SAFE_GRADLE_PATH = Regex(":[A-Za-z0-9_.:-]*")
+        val SAFE_VARIANT_NAME = Regex("[A-Za-z0-9_]+")
+    }
+
+    override suspend fun resolve(workspaceRoot: Path, variant: String): ProjectModel =
+        resolve(workspaceRoot, variant, emptyMap())
+
+    override suspend fun resolve(
+        workspaceRoot: Path,
+        variant: String,
+        moduleVariants: Map<String, String>
+    ): ProjectModel {
         val connector = GradleConnector.newConnector()
             .forProjectDirectory(workspaceRoot.toFile())
 
@@ -58,7 +71,7 @@ class GradleProvider : BuildSystemProvider {
             var modules = if (ideaProject != null) {
                 ideaProject.modules.mapNotNull { ideaModule ->
                     try {
-                        resolveModule(ideaModule, variant)
+                        resolveModule(ideaModule, workspaceRoot, variant, moduleVariants)
                     } catch (e: Exception) {
                         System.err.println("Skipping module '${ideaModule.name}': ${e.message}")
                         null
@@ -66,8 +79,8 @@ class GradleProvider : BuildSystemProvider {
                 }
             } else {
                 // IdeaProject unavailable — run init script first to discover modules
-                val resolvedClasspaths = resolveClasspathViaInitScript(connection, workspaceRoot, variant)
-                val discoveredModules = buildModulesFromInitScript(resolvedClasspaths, variant)
+                val resolvedClasspaths = resolveClasspathViaInitScript(connection, workspaceRoot, variant, moduleVariants)
+                val discoveredModules = buildModulesFromInitScript(resolvedClasspaths, workspaceRoot, variant, moduleVariants)
                 System.err.println("[gradle] Init-script-only mode: discovered ${discoveredModules.size} modules with classpath")
                 discoveredModules
             }
@@ -86,8 +99,8 @@ class GradleProvider : BuildSystemProvider {
                 System.err.println("[gradle] hasAndroid=$hasAndroid, anyEmptyClasspath=$anyEmptyClasspath")
                 if (hasAndroid || anyEmptyClasspath) {
                     try {
-                        System.err.println("[gradle] Running init script for classpath resolution (variant=$variant)...")
-                        val resolvedClasspaths = resolveClasspathViaInitScript(connection, workspaceRoot, variant)
+                        System.err.println("[gradle] Running init script for classpath resolution (variant=$variant, overrides=$moduleVariants)...")
+                        val resolvedClasspaths = resolveClasspathViaInitScript(connection, workspaceRoot, variant, moduleVariants)
                         val resolvedCp = resolvedClasspaths.main
                         val resolvedTestCp = resolvedClasspaths.test
                         val resolvedKmp = resolvedClasspaths.kmp
@@ -174,13 +187,18 @@ class GradleProvider : BuildSystemProvider {
                 }
             }
 
-            ProjectModel(modules = modules, variant = variant, isMultiplatform = isKmp)
+            ProjectModel(modules = modules, variant = variant, isMultiplatform = isKmp, moduleVariants = moduleVariants)
         } finally {
             connection.close()
         }
     }
 
-    private fun resolveModule(ideaModule: org.gradle.tooling.model.idea.IdeaModule, variant: String): ModuleInfo {
+    private fun resolveModule(
+        ideaModule: org.gradle.tooling.model.idea.IdeaModule,
+        rootDir: Path,
+        defaultVariant: String,
+        moduleVariants: Map<String, String>
+    ): ModuleInfo {
         val sourceRoots = mutableListOf<Path>()
         val testSourceRoots = mutableListOf<Path>()
         val classpath = mutableListOf<Path>()
@@ -192,6 +210,8 @@ class GradleProvider : BuildSystemProvider {
             // Try GradleProject.projectDirectory as fallback
             moduleDir = try { ideaModule.gradleProject.projectDirectory.toPath() } catch (_: Exception) { null }
         }
+        val gradlePath = moduleDir?.let { gradlePathOf(rootDir, it) }
+        val variant = gradlePath?.let { moduleVariants[it] } ?: defaultVariant
 
         for (contentRoot in ideaModule.contentRoots) {
             for (sourceDir in contentRoot.sourceDirectories) {
@@ -294,7 +314,8 @@ class GradleProvider : BuildSystemProvider {
             kotlinVersion = null,
             jvmTarget = null,
             isAndroid = isAndroid,
-            targets = kmpTargets
+            targets = kmpTargets,
+            gradlePath = gradlePath
         )
     }
 
@@ -308,13 +329,12 @@ class GradleProvider : BuildSystemProvider {
     private fun resolveClasspathViaInitScript(
         connection: org.gradle.tooling.ProjectConnection,
         workspaceRoot: Path,
-        variant: String = "debug"
+        variant: String = "debug",
+        moduleVariants: Map<String, String> = emptyMap()
     ): ResolvedClasspaths {
         // Write a temporary Gradle init script that resolves the variant's compile classpath
         val initScript = Files.createTempFile("lsp-classpath-", ".gradle")
-        val variantCp = "${variant}CompileClasspath"
-        val variantAndroidTestCp = "${variant}AndroidTestCompileClasspath"
-        val variantUnitTestCp = "${variant}UnitTestCompileClasspath"
+        val variantOverrides = toGroovyMapLiteral(moduleVariants)
         try {
             Files.writeString(initScript, """
                 allprojects {
@@ -323,6 +343,12 @@ class GradleProvider : BuildSystemProvider {
                             // Output module directory for init-script-only fallback
                             println "LSPDIR:" + project.name + ":" + project.projectDir.absolutePath
 
+                            // Android build variant for this module (per-module override or default),
+                            // keyed by the Gradle path the client derives from directories
+                            def lspDir = project.rootProject.projectDir.toPath().relativize(project.projectDir.toPath())
+                            def lspGradlePath = ":" + lspDir.iterator().collect { it.toString() }.join(":")
+                            def lspVariant = $variantOverrides.get(lspGradlePath, "$variant")
+
                             // List all resolvable compile-related configurations
                             // Use project.configurations explicitly — Gradle 8.14+ doesn't resolve
                             // bare 'configurations' inside doLast to the project scope
@@ -334,7 +360,7 @@ class GradleProvider : BuildSystemProvider {
                             // --- Main classpath ---
                             // Prioritize JVM-compatible configs (important for KMP modules
                             // where jvmCompileClasspath gives JVM libs, not JS/Native)
-                            def configs = ["$variantCp", "compileClasspath"]
+                            def configs = [lspVariant + "CompileClasspath", "compileClasspath"]
                             if (compileConfigs.contains("jvmCompileClasspath")) {
                                 configs.add(1, "jvmCompileClasspath")
                             }
@@ -370,7 +396,7 @@ class GradleProvider : BuildSystemProvider {
                             }
 
                             // --- Test classpaths (androidTest + unitTest) ---
-                            def testConfigs = ["$variantAndroidTestCp", "$variantUnitTestCp"]
+                            def testConfigs = [lspVariant + "AndroidTestCompileClasspath", lspVariant + "UnitTestCompileClasspath"]
                             for (configName in testConfigs) {
                                 def cp = project.configurations.findByName(configName)
                                 if (cp == null) continue
@@ -503,13 +529,27 @@ class GradleProvider : BuildSystemProvider {
         }
     }
 
+    /**
+     * Render per-module variant overrides as a Groovy map literal for the init script.
+     * Entries that aren't plain Gradle paths or variant names are dropped — they'd break the script.
+     */
+    private fun toGroovyMapLiteral(moduleVariants: Map<String, String>): String {
+        val safe = moduleVariants.filter { (gradlePath, variant) ->
+            gradlePath.matches(SAFE_GRADLE_PATH) && variant.matches(SAFE_VARIANT_NAME)
+        }
+        if (safe.isEmpty()) return "[:]"
+        return safe.entries.joinToString(", ", "[", "]") { (gradlePath, variant) -> "\"$gradlePath\": \"$variant\"" }
+    }
+
     /**
      * Build ModuleInfo list from init script output alone (no IdeaProject).
      * Uses LSPDIR for module directories and LSPCP/LSPTCP for classpath.
      */
     private fun buildModulesFromInitScript(
         resolved: ResolvedClasspaths,
-        variant: String
+        rootDir: Path,
+        variant: String,
+        moduleVariants: Map<String, String> = emptyMap()
     ): List<ModuleInfo> {
         // Collect all module names seen in any output
         val allModuleNames = (resolved.moduleDirs.keys +
@@ -519,6 +559,7 @@ class GradleProvider : BuildSystemProvider {
 
         return allModuleNames.map { moduleName ->
             val moduleDir = resolved.moduleDirs[moduleName]
+            val gradlePath = moduleDir?.let { gradlePathOf(rootDir, it) }
             val sourceRoots = mutableListOf<Path>()
             val testSourceRoots = mutableListOf<Path>()
 
@@ -534,8 +575,9 @@ class GradleProvider : BuildSystemProvider {
                 if (classpath.none { it.fileName.toString() == "android.jar" }) {
                     findAndroidJar()?.let { classpath.add(it) }
                 }
-                addGeneratedSources(moduleDir, sourceRoots, variant)
-                addGeneratedClasspathJars(moduleDir, classpath, variant)
+                val moduleVariant = gradlePath?.let { moduleVariants[it] } ?: variant
+                addGeneratedSources(moduleDir, sourceRoots, moduleVariant)
+                addGeneratedClasspathJars(moduleDir, classpath, moduleVariant)
             }
 
             val isKmp = detectKmp(moduleDir)
@@ -605,7 +647,8 @@ class GradleProvider : BuildSystemProvider {
                 kotlinVersion = null,
                 jvmTarget = null,
                 isAndroid = isAndroid,
-                targets = finalTargets
+                targets = finalTargets,
+                gradlePath = gradlePath
             )
         }
     }
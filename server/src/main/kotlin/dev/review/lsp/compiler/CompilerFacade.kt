@@ -42,5 +42,8 @@ interface CompilerFacade {
     /** Return available KMP target names, or empty for non-KMP projects. */
     fun getAvailableTargets(): List<String> = emptyList()
 
+    /** Analyze shared (e.g. commonMain) files with the given KMP platform's session. Null restores the default JVM-first choice. */
+    fun setPrimaryTarget(platform: String?) {}
+
     fun dispose()
 }
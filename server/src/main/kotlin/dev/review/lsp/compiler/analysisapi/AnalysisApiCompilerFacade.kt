@@ -4,6 +4,8 @@ import dev.review.lsp.analysis.SyntaxParser
 import dev.review.lsp.buildsystem.KmpPlatform
 import dev.review.lsp.buildsystem.ProjectModel
 import dev.review.lsp.compiler.*
+import dev.review.lsp.util.ExcludedFiles
+import dev.review.lsp.util.VirtualDocuments
 import org.jetbrains.kotlin.analysis.api.KaExperimentalApi
 import org.jetbrains.kotlin.analysis.api.analyze
 import org.jetbrains.kotlin.analysis.api.components.KaDiagnosticCheckerFilter
@@ -51,6 +53,9 @@ class AnalysisApiCompilerFacade(
 
     private val fileContents = ConcurrentHashMap<Path, String>()
 
+    // In-memory files for virtual documents (diff views, untitled buffers): path -> (content, file)
+    private val virtualFiles = ConcurrentHashMap<Path, Pair<String, KtFile>>()
+
     // LRU cache for resolved symbols per file, invalidated on updateFileContent
     private val symbolCache = object : LinkedHashMap<Path, List<ResolvedSymbol>>(64, 0.75f, true) {
         override fun removeEldestEntry(eldest: MutableMap.MutableEntry<Path, List<ResolvedSymbol>>): Boolean =
@@ -64,6 +69,10 @@ class AnalysisApiCompilerFacade(
     @Volatile
     private var sessions: Map<KmpPlatform, org.jetbrains.kotlin.analysis.api.standalone.StandaloneAnalysisAPISession> = emptyMap()
 
+    // Platform chosen by the user for shared source sets; null = JVM > Android > first available
+    @Volatile
+    private var primaryTarget: KmpPlatform? = null
+
     private val session: org.jetbrains.kotlin.analysis.api.standalone.StandaloneAnalysisAPISession
         get() = sessions.values.firstOrNull() ?: throw IllegalStateException("No analysis session available")
 
@@ -204,7 +213,8 @@ class AnalysisApiCompilerFacade(
                 addModule(buildKtSourceModule {
                     moduleName = projectModel.modules.firstOrNull()?.name ?: "sources"
                     this.platform = targetPlatform
-                    for (root in sourceRoots) {
+                    // Roots with excluded files are added file by file
+                    for (root in sourceRoots.flatMap { ExcludedFiles.sourceRootEntries(it) }) {
                         addSourceRoot(root)
                     }
                     // Add klib stubs as source roots (JVM/Android fallback only)
@@ -318,13 +328,14 @@ class AnalysisApiCompilerFacade(
 
     private fun kmpPlatformForFile(file: Path): KmpPlatform {
         if (sessions.size <= 1) return sessions.keys.firstOrNull() ?: KmpPlatform.JVM
-        val pathStr = file.toString()
+        val pathStr = (VirtualDocuments.workspacePathOf(file) ?: file).toString()
         return when {
             pathStr.contains("/androidMain/") || pathStr.contains("/androidTest/") -> KmpPlatform.ANDROID
             pathStr.contains("/jvmMain/") || pathStr.contains("/jvmTest/") -> KmpPlatform.JVM
             pathStr.contains("/iosMain/") || pathStr.contains("/nativeMain/") || pathStr.contains("/iosTest/") || pathStr.contains("/nativeTest/") -> KmpPlatform.NATIVE
             pathStr.contains("/jsMain/") || pathStr.contains("/jsTest/") || pathStr.contains("/wasmJsMain/") || pathStr.contains("/wasmJsTest/") -> KmpPlatform.JS
-            else -> sessions.keys.firstOrNull { it == KmpPlatform.JVM }
+            else -> primaryTarget?.takeIf { it in sessions }
+                ?: sessions.keys.firstOrNull { it == KmpPlatform.JVM }
                 ?: sessions.keys.firstOrNull { it == KmpPlatform.ANDROID }
                 ?: sessions.keys.firstOrNull()
                 ?: KmpPlatform.JVM
@@ -340,6 +351,13 @@ class AnalysisApiCompilerFacade(
         return sessions.keys.map { it.name }
     }
 
+    override fun setPrimaryTarget(platform: String?) {
+        primaryTarget = platform?.let { name -> KmpPlatform.entries.firstOrNull { it.name.equals(name, ignoreCase = true) } }
+        synchronized(symbolCache) {
+            symbolCache.clear()
+        }
+    }
+
     private fun sessionForFile(file: Path): org.jetbrains.kotlin.analysis.api.standalone.StandaloneAnalysisAPISession {
         return sessions[kmpPlatformForFile(file)] ?: session
     }
@@ -350,6 +368,7 @@ class AnalysisApiCompilerFacade(
         }.distinctBy { it.virtualFile?.path }
 
     private fun findKtFile(file: Path): KtFile? {
+        if (VirtualDocuments.isVirtual(file)) return virtualKtFile(file)
         val targetSession = sessionForFile(file)
         val ktFile = targetSession.modulesWithFiles.values.flatten()
             .filterIsInstance<KtFile>()
@@ -377,8 +396,37 @@ class AnalysisApiCompilerFacade(
         return element as? KtElement
     }
 
+    /**
+     * In-memory file for a virtual document, analyzed in the module of the workspace
+     * file it is a version of (untitled buffers use the first module). Created as a
+     * dangling file with a context file from that module, so the session is untouched.
+     */
+    private fun virtualKtFile(file: Path): KtFile? {
+        val document = VirtualDocuments.forPath(file) ?: return null
+        val content = document.content
+        virtualFiles[file]?.let { (text, ktFile) -> if (text == content) return ktFile }
+
+        val sessionFiles = allKtFiles()
+        val workspacePath = document.workspacePath?.normalize()
+        val context = workspacePath?.let { wp ->
+            sessionFiles.find { it.virtualFile?.path?.let { p -> Path.of(p).normalize() } == wp }
+                // Not in the working tree (e.g. deleted since): a file sharing the longest directory prefix
+                ?: sessionFiles.maxByOrNull { ktFile ->
+                    val p = ktFile.virtualFile?.path?.let { Path.of(it).normalize() } ?: return@maxByOrNull -1
+                    (0 until minOf(p.nameCount, wp.nameCount)).takeWhile { p.getName(it) == wp.getName(it) }.count()
+                }
+        } ?: sessionFiles.firstOrNull() ?: return null
+
+        val ktFile = KtPsiFactory.contextual(context).createFile(file.fileName.toString(), content)
+        virtualFiles.keys.removeIf { VirtualDocuments.forPath(it) == null } // closed documents
+        virtualFiles[file] = content to ktFile
+        return ktFile
+    }
+
     private fun psiToSourceLocation(psi: com.intellij.psi.PsiElement): SourceLocation? {
-        val file = psi.containingFile?.virtualFile?.path?.let { Path.of(it) } ?: return null
+        val containingFile = psi.containingFile
+        val virtualPath = virtualFiles.entries.firstOrNull { it.value.second == containingFile }?.key
+        val file = virtualPath ?: containingFile?.virtualFile?.path?.let { Path.of(it) } ?: return null
         val document = psi.containingFile?.viewProvider?.document ?: return null
         val offset = psi.textOffset
         val line = document.getLineNumber(offset)
@@ -862,7 +910,14 @@ class AnalysisApiCompilerFacade(
                                 is KaPropertySymbol -> symbol.name.asString()
                                 else -> null
                             }
-                            val stubLoc = if (classSymbol != null) {
+                            // Compiled class in a jar or the JDK: point at the class file, the
+                            // client shows its sources (or declarations) from there
+                            val binaryLoc = try {
+                                psi?.containingFile?.virtualFile?.path
+                                    ?.takeIf { it.contains("!/") }
+                                    ?.let { SourceLocation(Path.of(it), 0, 0) }
+                            } catch (_: Exception) { null }
+                            val stubLoc = binaryLoc ?: if (classSymbol != null) {
                                 generateLibraryStub(classSymbol, memberName)
                             } else null
                             val sig = renderSyntheticSignature(symbol)
@@ -1587,8 +1642,9 @@ class AnalysisApiCompilerFacade(
                         else findDeclarationsInSession(targetSession, fqName, hasExpect = false)
                     }
                 } else {
-                    // Find expect in the common/primary session (prefer JVM as primary for common files)
-                    val primaryPlatform = sessions.keys.firstOrNull { it == KmpPlatform.JVM }
+                    // Find expect in the common/primary session (user-selected target, else JVM)
+                    val primaryPlatform = primaryTarget?.takeIf { it in sessions }
+                        ?: sessions.keys.firstOrNull { it == KmpPlatform.JVM }
                         ?: sessions.keys.firstOrNull { it == KmpPlatform.ANDROID }
                         ?: sessions.keys.firstOrNull()
                     val primarySession = primaryPlatform?.let { sessions[it] }
@@ -1681,6 +1737,8 @@ class AnalysisApiCompilerFacade(
         synchronized(symbolCache) {
             symbolCache.clear()
         }
+        // Dangling files keep their old context file; recreate them against the new sessions
+        virtualFiles.clear()
         try {
             runOnAnalysisThread {
                 sessions = emptyMap()
@@ -0,0 +1,81 @@
+package dev.review.lsp.util
+
+import java.nio.file.FileSystems
+import java.nio.file.Files
+import java.nio.file.Path
+import java.nio.file.PathMatcher
+
+/**
+ * `files` settings as sent by the client: the `kotlinReview.files.exclude` globs,
+ * `kotlinReview.files.maxSizeKb` and the workspace folders the globs are relative to.
+ */
+data class FileSettings(
+    val exclude: List<String> = emptyList(),
+    val maxSizeKb: Int = 0,
+    val roots: List<Path> = emptyList(),
+)
+
+/**
+ * Files the user excluded from analysis (`kotlinReview.files.exclude` globs,
+ * relative to the workspace folder containing the file) and files over
+ * `kotlinReview.files.maxSizeKb`, typically generated code, build output and
+ * vendored sources. Source roots containing excluded files are expanded to
+ * their remaining files when sessions are built, and file watcher events for
+ * excluded files are ignored. The client keeps excluded files from being
+ * opened on the server.
+ */
+object ExcludedFiles {
+
+    private class Settings(val roots: List<Path>, val matchers: List<PathMatcher>, val maxBytes: Long)
+
+    @Volatile private var settings = Settings(emptyList(), emptyList(), 0)
+
+    /** Replace the settings; [maxSizeKb] <= 0 disables the size limit. */
+    fun configure(workspaceRoots: List<Path>, globs: List<String>, maxSizeKb: Int) {
+        val fs = FileSystems.getDefault()
+        val matchers = globs.filter { it.isNotBlank() }.flatMap { glob ->
+            // VS Code's "**/build/**" also matches a top-level build/, Java's "**/" needs a parent
+            val variants = if (glob.startsWith("**/")) listOf(glob, glob.removePrefix("**/")) else listOf(glob)
+            variants.mapNotNull { try { fs.getPathMatcher("glob:$it") } catch (_: IllegalArgumentException) { null } }
+        }
+        // Longest first, so a nested folder wins over the folder containing it
+        val roots = workspaceRoots.map { it.normalize() }.sortedByDescending { it.nameCount }
+        settings = Settings(roots, matchers, if (maxSizeKb > 0) maxSizeKb * 1024L else 0)
+    }
+
+    /** True if [path] matches an exclude glob, or is a file larger than the size limit. */
+    fun isExcluded(path: Path): Boolean {
+        val current = settings
+        return matchesGlob(current, path) || (isTooLarge(current, path) && Files.isRegularFile(path))
+    }
+
+    fun isExcluded(uri: String): Boolean =
+        !VirtualDocuments.isVirtual(uri) && (try { isExcluded(UriUtil.toPath(uri)) } catch (_: Exception) { false })
+
+    /**
+     * [root] itself when nothing under it is excluded (the common case, and
+     * always when there are neither globs nor a size limit), else the files
+     * under it that aren't.
+     */
+    fun sourceRootEntries(root: Path): List<Path> {
+        val current = settings
+        if ((current.matchers.isEmpty() && current.maxBytes == 0L) || !Files.isDirectory(root)) return listOf(root)
+        val files = Files.walk(root).use { stream -> stream.iterator().asSequence().filter { Files.isRegularFile(it) }.toList() }
+        val kept = files.filterNot { matchesGlob(current, it) || isTooLarge(current, it) }
+        if (kept.size == files.size) return listOf(root)
+        System.err.println("[exclude] ${files.size - kept.size} file(s) excluded under $root")
+        return kept
+    }
+
+    private fun isTooLarge(current: Settings, file: Path): Boolean =
+        current.maxBytes > 0 && (try { Files.size(file) } catch (_: Exception) { 0L }) > current.maxBytes
+
+    private fun matchesGlob(current: Settings, path: Path): Boolean {
+        if (current.matchers.isEmpty()) return false
+        val normalized = path.normalize()
+        // Relative to the containing workspace folder, so "vendor/**" works in every folder of a
+        // multi-root workspace and "**/build/**" doesn't hit a folder that itself lives under a build/
+        val matched = current.roots.firstOrNull { normalized.startsWith(it) }?.relativize(normalized) ?: normalized
+        return current.matchers.any { it.matches(matched) }
+    }
+}
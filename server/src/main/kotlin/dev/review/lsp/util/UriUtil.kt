@@ -6,9 +6,39 @@ import java.nio.file.Paths
 
 object UriUtil {
 
-    fun toPath(uri: String): Path =
-        Paths.get(URI.create(uri))
+    /** Separator between an archive (or JDK home) and an entry in library paths, as in IntelliJ's VFS. */
+    private const val ARCHIVE_SEPARATOR = "!/"
 
-    fun toUri(path: Path): String =
-        path.toUri().toString()
+    /**
+     * Converts a `file:` URI to a path. `jar:file:///lib.jar!/pkg/Foo.class` becomes the
+     * VFS-style path `/lib.jar!/pkg/Foo.class`; other schemes get a [VirtualDocuments] path.
+     */
+    fun toPath(uri: String): Path {
+        if (VirtualDocuments.isVirtual(uri)) return VirtualDocuments.forUri(uri).path
+        val parsed = URI.create(uri)
+        if (parsed.scheme == "jar") {
+            val ssp = parsed.schemeSpecificPart
+            val separator = ssp.indexOf(ARCHIVE_SEPARATOR)
+            if (separator > 0) {
+                val archive = Paths.get(URI.create(ssp.substring(0, separator)))
+                return Paths.get(archive.toString() + ARCHIVE_SEPARATOR + ssp.substring(separator + ARCHIVE_SEPARATOR.length))
+            }
+        }
+        return Paths.get(parsed)
+    }
+
+    /**
+     * Converts a path to a URI. Paths into a library (`/lib.jar!/pkg/Foo.class`, as
+     * reported for compiled PSI) become `jar:` URIs the client can open.
+     */
+    fun toUri(path: Path): String {
+        VirtualDocuments.forPath(path)?.let { return it.uri }
+        val text = path.toString()
+        val separator = text.indexOf(ARCHIVE_SEPARATOR)
+        if (separator > 0) {
+            val archive = Paths.get(text.substring(0, separator)).toUri().toString()
+            return "jar:$archive$ARCHIVE_SEPARATOR${text.substring(separator + ARCHIVE_SEPARATOR.length)}"
+        }
+        return path.toUri().toString()
+    }
 }
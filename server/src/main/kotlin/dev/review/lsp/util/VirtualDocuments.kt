@@ -0,0 +1,57 @@
+package dev.review.lsp.util
+
+import java.nio.file.Path
+import java.nio.file.Paths
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.atomic.AtomicInteger
+
+/**
+ * Documents the client mirrors from non-file schemes: the old side of a git
+ * diff (`git:`), pull request review views, `untitled:` buffers and library
+ * sources. They have no file on disk, so each gets a synthetic path under
+ * [ROOT] to flow through the Path-based facade API, and is analyzed in memory
+ * in the module of the workspace file it is a version of.
+ */
+object VirtualDocuments {
+
+    val ROOT: Path = Paths.get("/__kotlin_review_virtual__")
+
+    class Document(
+        val uri: String,
+        val path: Path,
+        /** Workspace file this document is a version of; null for untitled buffers. */
+        @Volatile var workspacePath: Path? = null,
+        @Volatile var content: String = ""
+    )
+
+    private val byUri = ConcurrentHashMap<String, Document>()
+    private val byPath = ConcurrentHashMap<Path, Document>()
+    private val counter = AtomicInteger()
+
+    /**
+     * True for URIs that aren't backed by a file: anything but `file:` and `jar:`, plus
+     * library (`jar:`) documents the client opened, which are analyzed like the others.
+     */
+    fun isVirtual(uri: String): Boolean =
+        byUri.containsKey(uri) || (!uri.startsWith("file:") && !uri.startsWith("jar:"))
+
+    fun isVirtual(path: Path): Boolean = path.startsWith(ROOT)
+
+    /** The document for [uri], registering it on first use. */
+    fun forUri(uri: String): Document = byUri.computeIfAbsent(uri) {
+        val name = uri.substringBefore('?').substringAfterLast('/').takeIf { it.endsWith(".kt") || it.endsWith(".kts") }
+            ?: "Untitled.kt"
+        val document = Document(uri, ROOT.resolve(counter.incrementAndGet().toString()).resolve(name))
+        byPath[document.path] = document
+        document
+    }
+
+    fun forPath(path: Path): Document? = byPath[path]
+
+    /** The workspace file a virtual path stands for, or [path] itself for regular files. */
+    fun workspacePathOf(path: Path): Path? = if (isVirtual(path)) byPath[path]?.workspacePath else path
+
+    fun remove(uri: String) {
+        byUri.remove(uri)?.let { byPath.remove(it.path) }
+    }
+}
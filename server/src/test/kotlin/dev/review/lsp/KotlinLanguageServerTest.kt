@@ -4,6 +4,7 @@ import org.eclipse.lsp4j.*
 import org.junit.jupiter.api.Test
 import kotlin.test.assertEquals
 import kotlin.test.assertNotNull
+import kotlin.test.assertTrue
 
 class KotlinLanguageServerTest {
 
@@ -31,7 +32,17 @@ class KotlinLanguageServerTest {
 
         assertNotNull(result.serverInfo)
         assertEquals("kotlin-review-lsp", result.serverInfo.name)
-        assertEquals("0.1.0", result.serverInfo.version)
+        // From the jar manifest; unpackaged test runs report "dev"
+        assertEquals("dev", result.serverInfo.version)
+    }
+
+    @Test
+    fun `project model is empty before the workspace is discovered`() {
+        val server = KotlinLanguageServer()
+
+        val result = server.projectModel().get()
+
+        assertTrue(result.roots.isEmpty())
     }
 
     @Test
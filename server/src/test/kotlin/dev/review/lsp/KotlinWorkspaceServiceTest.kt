@@ -0,0 +1,93 @@
+package dev.review.lsp
+
+import com.google.gson.JsonObject
+import dev.review.lsp.util.FileSettings
+import org.eclipse.lsp4j.DidChangeConfigurationParams
+import org.junit.jupiter.api.Test
+import java.nio.file.Paths
+import kotlin.test.assertEquals
+import kotlin.test.assertFalse
+import kotlin.test.assertNull
+import kotlin.test.assertTrue
+
+class KotlinWorkspaceServiceTest {
+
+    @Test
+    fun `primary target change does not trigger configuration rebuild`() {
+        val service = KotlinWorkspaceService()
+        var selected: String? = null
+        var rebuildRequested = false
+        service.onPrimaryTargetChanged = { selected = it }
+        service.onConfigurationChanged = { rebuildRequested = true }
+
+        val settings = JsonObject().apply { addProperty("primaryTarget", "JS") }
+        service.didChangeConfiguration(DidChangeConfigurationParams(settings))
+
+        assertEquals("JS", selected)
+        assertFalse(rebuildRequested)
+    }
+
+    @Test
+    fun `blank primary target resets to default`() {
+        val service = KotlinWorkspaceService()
+        var selected: String? = "JVM"
+        service.onPrimaryTargetChanged = { selected = it }
+
+        val settings = JsonObject().apply { addProperty("primaryTarget", "") }
+        service.didChangeConfiguration(DidChangeConfigurationParams(settings))
+
+        assertNull(selected)
+    }
+
+    @Test
+    fun `build variant change is passed with module overrides`() {
+        val service = KotlinWorkspaceService()
+        var variant: String? = null
+        var overrides: Map<String, String>? = null
+        var rebuildRequested = false
+        service.onBuildVariantChanged = { v, o -> variant = v; overrides = o }
+        service.onConfigurationChanged = { rebuildRequested = true }
+
+        val settings = JsonObject().apply {
+            addProperty("buildVariant", "release")
+            add("moduleVariants", JsonObject().apply { addProperty("app", "stagingDebug") })
+        }
+        service.didChangeConfiguration(DidChangeConfigurationParams(settings))
+
+        assertEquals("release", variant)
+        assertEquals(mapOf("app" to "stagingDebug"), overrides)
+        assertFalse(rebuildRequested)
+    }
+
+    @Test
+    fun `excluded files change is passed without configuration rebuild`() {
+        val service = KotlinWorkspaceService()
+        var files: FileSettings? = null
+        var rebuildRequested = false
+        service.onExcludedFilesChanged = { files = it }
+        service.onConfigurationChanged = { rebuildRequested = true }
+
+        val settings = JsonObject().apply {
+            add("files", JsonObject().apply {
+                add("exclude", com.google.gson.JsonArray().apply { add("**/vendor/**") })
+                addProperty("maxSizeKb", 512)
+                add("roots", com.google.gson.JsonArray().apply { add("/work/app") })
+            })
+        }
+        service.didChangeConfiguration(DidChangeConfigurationParams(settings))
+
+        assertEquals(FileSettings(listOf("**/vendor/**"), 512, listOf(Paths.get("/work/app"))), files)
+        assertFalse(rebuildRequested)
+    }
+
+    @Test
+    fun `other configuration changes trigger rebuild`() {
+        val service = KotlinWorkspaceService()
+        var rebuildRequested = false
+        service.onConfigurationChanged = { rebuildRequested = true }
+
+        service.didChangeConfiguration(DidChangeConfigurationParams(JsonObject()))
+
+        assertTrue(rebuildRequested)
+    }
+}
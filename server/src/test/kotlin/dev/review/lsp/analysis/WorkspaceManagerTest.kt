@@ -116,4 +116,19 @@ class WorkspaceManagerTest {
         wm.dispose()
         assertEquals(0, wm.allRoots().size)
     }
+
+    @Test
+    fun `untrusted workspace does not use the Gradle provider`() {
+        val rootA = Files.createDirectory(tempDir.resolve("a"))
+        Files.createFile(rootA.resolve("settings.gradle.kts"))
+        Files.createFile(rootA.resolve("build.gradle.kts"))
+
+        val wm = WorkspaceManager(tempDir, "debug", runBuildScripts = false)
+        wm.discover()
+
+        val roots = wm.allBuildRoots()
+        assertEquals(1, roots.size)
+        assertEquals("manual", roots.single().provider.id)
+        assertEquals(tempDir.normalize(), roots.single().rootDir.normalize())
+    }
 }
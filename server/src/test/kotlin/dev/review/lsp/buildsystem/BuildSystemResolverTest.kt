@@ -95,6 +95,60 @@ class BuildSystemResolverTest {
         assertEquals(1, model.modules.size)
     }
 
+    @Test
+    fun `changing module variants bypasses the cached model`() = runTest {
+        val requested = mutableListOf<Map<String, String>>()
+        val fakeProvider = object : BuildSystemProvider {
+            override val id = "fake"
+            override val markerFiles = listOf("build.fake")
+            override val priority = 10
+            override suspend fun resolve(workspaceRoot: Path, variant: String) = ProjectModel(emptyList())
+            override suspend fun resolve(workspaceRoot: Path, variant: String, moduleVariants: Map<String, String>): ProjectModel {
+                requested.add(moduleVariants)
+                return ProjectModel(emptyList())
+            }
+            override suspend fun resolveModule(workspaceRoot: Path, moduleName: String) =
+                ModuleInfo(moduleName, emptyList(), emptyList(), emptyList(), emptyList(), null, null)
+        }
+        Files.createFile(tempDir.resolve("build.fake"))
+
+        val resolver = BuildSystemResolver(listOf(fakeProvider))
+        resolver.resolve(tempDir, "debug")
+        resolver.resolve(tempDir, "debug") // served from cache
+        val (_, model) = resolver.resolve(tempDir, "debug", mapOf(":app" to "stagingDebug"))
+
+        assertEquals(listOf(emptyMap(), mapOf(":app" to "stagingDebug")), requested)
+        val module = ModuleInfo("app", emptyList(), emptyList(), emptyList(), emptyList(), null, null)
+        assertEquals("stagingDebug", model.variantFor(module.copy(gradlePath = ":app")))
+        assertEquals("debug", model.variantFor(module.copy(gradlePath = ":feature:home:app")))
+        assertEquals("debug", model.variantFor(module))
+    }
+
+    @Test
+    fun `gradle paths are derived from module directories`() {
+        assertEquals(":", gradlePathOf(tempDir, tempDir))
+        assertEquals(":app", gradlePathOf(tempDir, tempDir.resolve("app")))
+        assertEquals(":feature:home:app", gradlePathOf(tempDir, tempDir.resolve("feature/home/app")))
+    }
+
+    @Test
+    fun `module variants are resolved for each build root`() {
+        val moduleVariants = mapOf(
+            ":app" to "release",
+            ":feature:home:app" to "stagingDebug",
+            "mobile:app" to "freeDebug",
+            "tools/mobile:" to "paidDebug",
+            "app" to "ignored",
+        )
+
+        assertEquals(
+            mapOf(":app" to "release", ":feature:home:app" to "stagingDebug"),
+            moduleVariantsForRoot(moduleVariants, tempDir, tempDir)
+        )
+        assertEquals(mapOf(":app" to "freeDebug"), moduleVariantsForRoot(moduleVariants, tempDir, tempDir.resolve("mobile")))
+        assertEquals(mapOf(":" to "paidDebug"), moduleVariantsForRoot(moduleVariants, tempDir, tempDir.resolve("tools/mobile")))
+    }
+
     // --- discoverBuildRoots tests ---
 
     @Test
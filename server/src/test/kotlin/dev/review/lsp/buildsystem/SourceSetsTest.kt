@@ -0,0 +1,109 @@
+package dev.review.lsp.buildsystem
+
+import org.junit.jupiter.api.Test
+import java.nio.file.Path
+import kotlin.test.assertEquals
+import kotlin.test.assertNull
+import kotlin.test.assertTrue
+
+class SourceSetsTest {
+
+    private val src = Path.of("/project/shared/src")
+
+    private fun target(name: String, platform: KmpPlatform, vararg sourceSets: String) = KmpTarget(
+        name = name,
+        platform = platform,
+        sourceRoots = sourceSets.map { src.resolve("$it/kotlin") },
+        testSourceRoots = emptyList(),
+        classpath = emptyList(),
+        testClasspath = emptyList()
+    )
+
+    private val kmpModel = ProjectModel(
+        modules = listOf(
+            ModuleInfo(
+                name = "shared",
+                sourceRoots = listOf(src.resolve("commonMain/kotlin")),
+                testSourceRoots = listOf(src.resolve("commonTest/kotlin")),
+                classpath = emptyList(),
+                testClasspath = emptyList(),
+                kotlinVersion = null,
+                jvmTarget = null,
+                targets = listOf(
+                    target("jvm", KmpPlatform.JVM, "jvmMain"),
+                    target("iosArm64", KmpPlatform.NATIVE, "iosArm64Main", "nativeMain", "iosMain"),
+                    target("iosX64", KmpPlatform.NATIVE, "iosX64Main", "nativeMain", "iosMain"),
+                    target("linuxX64", KmpPlatform.NATIVE, "linuxX64Main", "nativeMain")
+                )
+            )
+        ),
+        isMultiplatform = true
+    )
+
+    @Test
+    fun `leaf source set depends on intermediates nearest first`() {
+        val info = SourceSets.forFile(kmpModel, src.resolve("iosArm64Main/kotlin/Platform.kt"))!!
+
+        assertEquals("iosArm64Main", info.sourceSet)
+        assertEquals(listOf("iosMain", "nativeMain", "commonMain"), info.dependsOn)
+        assertEquals(listOf("iosArm64"), info.targets.map { it.name })
+    }
+
+    @Test
+    fun `intermediate source set is compiled for every target that includes it`() {
+        val info = SourceSets.forFile(kmpModel, src.resolve("nativeMain/kotlin/Native.kt"))!!
+
+        assertEquals("nativeMain", info.sourceSet)
+        assertEquals(listOf("commonMain"), info.dependsOn)
+        assertEquals(listOf("iosArm64", "iosX64", "linuxX64"), info.targets.map { it.name })
+    }
+
+    @Test
+    fun `common source set is compiled for all targets`() {
+        val info = SourceSets.forFile(kmpModel, src.resolve("commonTest/kotlin/SharedTest.kt"))!!
+
+        assertEquals("commonTest", info.sourceSet)
+        assertTrue(info.isTest)
+        assertTrue(info.dependsOn.isEmpty())
+        assertEquals(4, info.targets.size)
+    }
+
+    @Test
+    fun `source set missing from the model is named from its path`() {
+        val info = SourceSets.forFile(kmpModel, src.resolve("desktopMain/kotlin/Window.kt"))!!
+
+        assertEquals("desktopMain", info.sourceSet)
+        assertEquals(listOf("commonMain"), info.dependsOn)
+        assertTrue(info.targets.isEmpty())
+    }
+
+    @Test
+    fun `android build type source set depends on main`() {
+        val appSrc = Path.of("/project/app/src")
+        val model = ProjectModel(
+            modules = listOf(
+                ModuleInfo(
+                    name = "app",
+                    sourceRoots = listOf(appSrc.resolve("main/kotlin"), appSrc.resolve("debug/kotlin")),
+                    testSourceRoots = listOf(appSrc.resolve("test/kotlin")),
+                    classpath = emptyList(),
+                    testClasspath = emptyList(),
+                    kotlinVersion = null,
+                    jvmTarget = null,
+                    isAndroid = true
+                )
+            )
+        )
+
+        val info = SourceSets.forFile(model, appSrc.resolve("debug/kotlin/DebugMenu.kt"))!!
+
+        assertEquals("debug", info.sourceSet)
+        assertEquals(listOf("main"), info.dependsOn)
+        assertEquals(KmpPlatform.ANDROID, info.targets.single().platform)
+    }
+
+    @Test
+    fun `file outside the model has no source set`() {
+        assertNull(SourceSets.forFile(kmpModel, Path.of("/elsewhere/Foo.kt")))
+    }
+}
@@ -0,0 +1,108 @@
+package dev.review.lsp.util
+
+import org.junit.jupiter.api.AfterEach
+import org.junit.jupiter.api.Test
+import org.junit.jupiter.api.io.TempDir
+import java.nio.file.Files
+import java.nio.file.Path
+import kotlin.test.assertEquals
+import kotlin.test.assertFalse
+import kotlin.test.assertTrue
+
+class ExcludedFilesTest {
+
+    @TempDir
+    lateinit var tempDir: Path
+
+    @AfterEach
+    fun reset() {
+        ExcludedFiles.configure(emptyList(), emptyList(), 0)
+    }
+
+    private fun file(relative: String, text: String = "class A"): Path {
+        val path = tempDir.resolve(relative)
+        Files.createDirectories(path.parent)
+        Files.writeString(path, text)
+        return path
+    }
+
+    @Test
+    fun `globs match relative to the workspace root`() {
+        val vendored = file("vendor/lib/Lib.kt")
+        val nested = file("app/build/Gen.kt")
+        val source = file("app/src/main/kotlin/Main.kt")
+        ExcludedFiles.configure(listOf(tempDir), listOf("vendor/**", "**/build/**"), 0)
+
+        assertTrue(ExcludedFiles.isExcluded(vendored))
+        assertTrue(ExcludedFiles.isExcluded(nested))
+        assertFalse(ExcludedFiles.isExcluded(source))
+    }
+
+    @Test
+    fun `globs match relative to the containing workspace folder`() {
+        val first = tempDir.resolve("first")
+        val second = tempDir.resolve("second")
+        val vendored = file("second/vendor/Lib.kt")
+        val source = file("second/src/Main.kt")
+        ExcludedFiles.configure(listOf(first, second), listOf("vendor/**"), 0)
+
+        assertTrue(ExcludedFiles.isExcluded(vendored))
+        assertFalse(ExcludedFiles.isExcluded(source))
+    }
+
+    @Test
+    fun `leading double star also matches at the root`() {
+        val topLevel = file("build/Gen.kt")
+        ExcludedFiles.configure(listOf(tempDir), listOf("**/build/**"), 0)
+
+        assertTrue(ExcludedFiles.isExcluded(topLevel))
+    }
+
+    @Test
+    fun `files over the size limit are excluded`() {
+        val large = file("src/Large.kt", "x".repeat(3 * 1024))
+        val small = file("src/Small.kt")
+        ExcludedFiles.configure(listOf(tempDir), emptyList(), 2)
+
+        assertTrue(ExcludedFiles.isExcluded(large))
+        assertFalse(ExcludedFiles.isExcluded(small))
+    }
+
+    @Test
+    fun `source root is kept whole when nothing under it is excluded`() {
+        val root = tempDir.resolve("src")
+        file("src/A.kt")
+        ExcludedFiles.configure(listOf(tempDir), listOf("**/generated/**"), 0)
+
+        assertEquals(listOf(root), ExcludedFiles.sourceRootEntries(root))
+    }
+
+    @Test
+    fun `source root with oversized files is expanded to the rest`() {
+        val root = tempDir.resolve("src")
+        val kept = file("src/Small.kt")
+        file("src/Large.kt", "x".repeat(3 * 1024))
+        ExcludedFiles.configure(listOf(tempDir), emptyList(), 2)
+
+        assertEquals(listOf(kept), ExcludedFiles.sourceRootEntries(root))
+    }
+
+    @Test
+    fun `source root under the size limit is kept whole`() {
+        val root = tempDir.resolve("src")
+        file("src/Small.kt")
+        ExcludedFiles.configure(listOf(tempDir), emptyList(), 2)
+
+        assertEquals(listOf(root), ExcludedFiles.sourceRootEntries(root))
+    }
+
+    @Test
+    fun `source root with excluded files is expanded to the rest`() {
+        val root = tempDir.resolve("src")
+        val kept = file("src/A.kt")
+        file("src/generated/B.kt")
+        ExcludedFiles.configure(listOf(tempDir), listOf("**/generated/**"), 0)
+
+        assertEquals(listOf(kept), ExcludedFiles.sourceRootEntries(root))
+    }
+}
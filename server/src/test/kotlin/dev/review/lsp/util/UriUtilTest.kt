@@ -26,4 +26,17 @@ class UriUtilTest {
         val roundTripped = UriUtil.toPath(uri)
         assertEquals(original, roundTripped)
     }
+
+    @Test
+    fun `toUri converts library path to jar URI`() {
+        val path = Paths.get("/repo/lib.jar!/pkg/Foo.class")
+        val uri = UriUtil.toUri(path)
+        assertEquals("jar:file:///repo/lib.jar!/pkg/Foo.class", uri)
+    }
+
+    @Test
+    fun `toPath converts jar URI to library path`() {
+        val path = UriUtil.toPath("jar:file:///repo/lib-sources.jar!/pkg/Foo.kt")
+        assertEquals(Paths.get("/repo/lib-sources.jar!/pkg/Foo.kt"), path)
+    }
 }
@@ -0,0 +1,61 @@
+package dev.review.lsp.util
+
+import org.junit.jupiter.api.Test
+import java.nio.file.Paths
+import kotlin.test.assertEquals
+import kotlin.test.assertFalse
+import kotlin.test.assertNull
+import kotlin.test.assertTrue
+
+class VirtualDocumentsTest {
+
+    private val gitUri = "git:/project/src/main/kotlin/Foo.kt?%7B%22ref%22%3A%22HEAD%22%7D"
+
+    @Test
+    fun `non-file URI round trips through a virtual path`() {
+        val path = UriUtil.toPath(gitUri)
+
+        assertTrue(VirtualDocuments.isVirtual(path))
+        assertEquals("Foo.kt", path.fileName.toString())
+        assertEquals(path, UriUtil.toPath(gitUri))
+        assertEquals(gitUri, UriUtil.toUri(path))
+    }
+
+    @Test
+    fun `virtual path stands for its workspace file`() {
+        val workspaceFile = Paths.get("/project/src/main/kotlin/Foo.kt")
+        val document = VirtualDocuments.forUri(gitUri)
+        document.workspacePath = workspaceFile
+
+        assertEquals(workspaceFile, VirtualDocuments.workspacePathOf(document.path))
+        assertEquals(workspaceFile, VirtualDocuments.workspacePathOf(workspaceFile))
+    }
+
+    @Test
+    fun `untitled buffer has no workspace file`() {
+        val path = UriUtil.toPath("untitled:Untitled-1")
+
+        assertEquals("Untitled.kt", path.fileName.toString())
+        assertNull(VirtualDocuments.workspacePathOf(path))
+    }
+
+    @Test
+    fun `closed document is forgotten`() {
+        val uri = "untitled:Untitled-2"
+        val path = UriUtil.toPath(uri)
+
+        VirtualDocuments.remove(uri)
+
+        assertNull(VirtualDocuments.forPath(path))
+        assertFalse(VirtualDocuments.isVirtual("file:///project/Foo.kt"))
+    }
+
+    @Test
+    fun `opened library document is virtual, other jar locations are not`() {
+        val opened = "jar:file:///repo/lib-sources.jar!/pkg/Opened.kt"
+        VirtualDocuments.forUri(opened)
+
+        assertTrue(VirtualDocuments.isVirtual(UriUtil.toPath(opened)))
+        assertFalse(VirtualDocuments.isVirtual("jar:file:///repo/lib.jar!/pkg/Other.class"))
+    }
+}